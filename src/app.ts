@@ -1,10 +1,12 @@
 import express, { Application } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import path from 'path';
 import { config, isDevelopment } from './config';
 import routes from './routes';
 import { errorHandler, notFoundHandler } from './middlewares';
+import { vectorStore } from './services/vector-store.service';
+import { jobQueueService } from './services/job-queue.service';
+import { fileProcessorService } from './services/file-processor.service';
 
 // ===========================================
 // CREATE EXPRESS APPLICATION
@@ -12,6 +14,9 @@ import { errorHandler, notFoundHandler } from './middlewares';
 
 const app: Application = express();
 
+// Client IPs (used by the rate limiter) come from X-Forwarded-For behind this many proxies
+app.set('trust proxy', config.trustProxy);
+
 // ===========================================
 // SECURITY MIDDLEWARE
 // ===========================================
@@ -39,13 +44,6 @@ app.use(express.json({ limit: '10mb' }));
 // Parse URL-encoded bodies
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// ===========================================
-// STATIC FILES - Serve uploaded files
-// ===========================================
-
-const uploadsPath = process.env.UPLOADS_DIR || path.join(__dirname, '../uploads');
-app.use('/uploads', express.static(uploadsPath));
-
 // ===========================================
 // ROUTES
 // ===========================================
@@ -87,6 +85,18 @@ const startServer = async (): Promise<void> => {
             console.log(`❤️  Health: http://localhost:${config.port}/api/health`);
             console.log('='.repeat(50));
         });
+
+        // Load/rebuild vector indexes in the background; retrieval waits until they are ready
+        vectorStore.initialize().catch(error => {
+            console.error('❌ Failed to initialize vector index:', error);
+        });
+
+        // Resume jobs interrupted by a restart, then queue files that never got one
+        jobQueueService.start()
+            .then(() => fileProcessorService.requeueUnfinished())
+            .catch(error => {
+                console.error('❌ Failed to start job queue:', error);
+            });
     } catch (error) {
         console.error('❌ Failed to start server:', error);
         process.exit(1);
@@ -1,4 +1,5 @@
 import dotenv from 'dotenv';
+import os from 'os';
 import path from 'path';
 
 // Load environment variables from .env file
@@ -20,6 +21,16 @@ interface Config {
     bcryptSaltRounds: number;
     rateLimitMax: number;
     rateLimitWindowMs: number;
+    rateLimitStore: 'memory' | 'database';
+    rateLimitAuthMax: number;
+    rateLimitAuthWindowMs: number;
+    rateLimitOtpMax: number;
+    rateLimitOtpWindowMs: number;
+    rateLimitAiMax: number;
+    rateLimitAiWindowMs: number;
+    trustProxy: number;
+    downloadUrlSecret: string;
+    downloadUrlTtlMs: number;
 
     // SMTP
     smtpHost: string;
@@ -28,10 +39,65 @@ interface Config {
     smtpPassword: string;
     smtpFrom: string;
 
+    // File storage
+    storageDriver: 'local' | 's3';
+    uploadsDir: string;
+    uploadTempDir: string;
+    s3Bucket: string;
+    s3Region: string;
+    s3Endpoint: string;
+    s3AccessKeyId: string;
+    s3SecretAccessKey: string;
+    s3ForcePathStyle: boolean;
+    s3Prefix: string;
+
     // GitHub OAuth
     githubClientId: string;
     githubClientSecret: string;
     frontendUrl: string;
+
+    // LLM provider
+    llmProvider: 'openrouter' | 'openai-compatible' | 'fake';
+    llmBaseUrl: string;
+    llmApiKey: string;
+    chatModel: string;
+    embeddingModel: string;
+    visionModel: string;
+    appUrl: string;
+
+    // OCR
+    ocrMode: 'remote' | 'local' | 'local-then-remote';
+    ocrMinConfidence: number;
+    ocrMaxPages: number;
+    tesseractPath: string;
+    ocrLanguages: string;
+
+    // Context window budgeting
+    contextWindowTokens: number;
+    responseReserveTokens: number;
+    summaryTriggerTokens: number;
+    summaryKeepRecentMessages: number;
+
+    // Streaming
+    streamResumeGraceMs: number;
+    streamReplayRetentionMs: number;
+
+    // Background jobs
+    jobConcurrency: number;
+    jobMaxAttempts: number;
+    jobRetryBaseMs: number;
+    jobPollIntervalMs: number;
+    jobLockTimeoutMs: number;
+
+    // Vector index
+    vectorIndexType: 'hnsw' | 'flat';
+    vectorIndexDir: string;
+    hnswM: number;
+    hnswEfConstruction: number;
+    hnswEfSearch: number;
+
+    // RAG
+    ragLexicalWeight: number;
 }
 
 function getEnvVar(key: string, defaultValue?: string): string {
@@ -57,6 +123,38 @@ function getEnvVarAsNumber(key: string, defaultValue?: number): number {
     return parsed;
 }
 
+function getLlmProvider(): Config['llmProvider'] {
+    const value = getEnvVar('LLM_PROVIDER', 'openrouter');
+    if (value !== 'openrouter' && value !== 'openai-compatible' && value !== 'fake') {
+        throw new Error(`LLM_PROVIDER must be one of: openrouter, openai-compatible, fake`);
+    }
+    return value;
+}
+
+function getStorageDriver(): Config['storageDriver'] {
+    const value = getEnvVar('STORAGE_DRIVER', 'local');
+    if (value !== 'local' && value !== 's3') {
+        throw new Error(`STORAGE_DRIVER must be one of: local, s3`);
+    }
+    return value;
+}
+
+function getRateLimitStore(): Config['rateLimitStore'] {
+    const value = getEnvVar('RATE_LIMIT_STORE', 'memory');
+    if (value !== 'memory' && value !== 'database') {
+        throw new Error(`RATE_LIMIT_STORE must be one of: memory, database`);
+    }
+    return value;
+}
+
+function getOcrMode(): Config['ocrMode'] {
+    const value = getEnvVar('OCR_MODE', 'remote');
+    if (value !== 'remote' && value !== 'local' && value !== 'local-then-remote') {
+        throw new Error(`OCR_MODE must be one of: remote, local, local-then-remote`);
+    }
+    return value;
+}
+
 export const config: Config = {
     // Server
     port: getEnvVarAsNumber('PORT', 3000),
@@ -73,6 +171,16 @@ export const config: Config = {
     bcryptSaltRounds: getEnvVarAsNumber('BCRYPT_SALT_ROUNDS', 10),
     rateLimitMax: getEnvVarAsNumber('RATE_LIMIT_MAX', 100),
     rateLimitWindowMs: getEnvVarAsNumber('RATE_LIMIT_WINDOW_MS', 15) * 60 * 1000, // Convert minutes to ms
+    rateLimitStore: getRateLimitStore(),
+    rateLimitAuthMax: getEnvVarAsNumber('RATE_LIMIT_AUTH_MAX', 10),
+    rateLimitAuthWindowMs: getEnvVarAsNumber('RATE_LIMIT_AUTH_WINDOW_MINUTES', 15) * 60 * 1000, // Convert minutes to ms
+    rateLimitOtpMax: getEnvVarAsNumber('RATE_LIMIT_OTP_MAX', 5),
+    rateLimitOtpWindowMs: getEnvVarAsNumber('RATE_LIMIT_OTP_WINDOW_MINUTES', 60) * 60 * 1000, // Convert minutes to ms
+    rateLimitAiMax: getEnvVarAsNumber('RATE_LIMIT_AI_MAX', 10),
+    rateLimitAiWindowMs: getEnvVarAsNumber('RATE_LIMIT_AI_WINDOW_MINUTES', 1) * 60 * 1000, // Convert minutes to ms
+    trustProxy: getEnvVarAsNumber('TRUST_PROXY', 0), // 1 behind Coolify's proxy (see .env.example)
+    downloadUrlSecret: process.env.DOWNLOAD_URL_SECRET || getEnvVar('JWT_SECRET'),
+    downloadUrlTtlMs: getEnvVarAsNumber('DOWNLOAD_URL_TTL_SECONDS', 300) * 1000, // Convert seconds to ms
 
     // SMTP
     smtpHost: getEnvVar('SMTP_HOST', ''),
@@ -81,10 +189,65 @@ export const config: Config = {
     smtpPassword: getEnvVar('SMTP_PASSWORD', ''),
     smtpFrom: getEnvVar('SMTP_FROM', 'noreply@lea4n.com'),
 
+    // File storage
+    storageDriver: getStorageDriver(),
+    uploadsDir: getEnvVar('UPLOADS_DIR', path.join(__dirname, '../../uploads')),
+    uploadTempDir: getEnvVar('UPLOAD_TEMP_DIR', path.join(os.tmpdir(), 'lea4n-uploads')),
+    s3Bucket: getEnvVar('S3_BUCKET', ''),
+    s3Region: getEnvVar('S3_REGION', 'us-east-1'),
+    s3Endpoint: getEnvVar('S3_ENDPOINT', ''),
+    s3AccessKeyId: getEnvVar('S3_ACCESS_KEY_ID', ''),
+    s3SecretAccessKey: getEnvVar('S3_SECRET_ACCESS_KEY', ''),
+    s3ForcePathStyle: getEnvVar('S3_FORCE_PATH_STYLE', 'false') === 'true',
+    s3Prefix: getEnvVar('S3_PREFIX', ''),
+
     // GitHub OAuth
     githubClientId: getEnvVar('GITHUB_CLIENT_ID', ''),
     githubClientSecret: getEnvVar('GITHUB_CLIENT_SECRET', ''),
     frontendUrl: getEnvVar('FRONTEND_URL', 'http://localhost:3000'),
+
+    // LLM provider
+    llmProvider: getLlmProvider(),
+    llmBaseUrl: getEnvVar('LLM_BASE_URL', 'https://openrouter.ai/api/v1'),
+    llmApiKey: process.env.LLM_API_KEY || process.env.OPENROUTER_API_KEY || '',
+    chatModel: getEnvVar('CHAT_MODEL', 'google/gemini-2.5-flash'),
+    embeddingModel: getEnvVar('EMBEDDING_MODEL', 'openai/text-embedding-3-small'),
+    visionModel: getEnvVar('VISION_MODEL', 'google/gemini-2.0-flash-001'),
+    appUrl: getEnvVar('APP_URL', 'http://localhost:3000'),
+
+    // OCR
+    ocrMode: getOcrMode(),
+    ocrMinConfidence: getEnvVarAsNumber('OCR_MIN_CONFIDENCE', 70),
+    ocrMaxPages: getEnvVarAsNumber('OCR_MAX_PAGES', 10),
+    tesseractPath: getEnvVar('TESSERACT_PATH', 'tesseract'),
+    ocrLanguages: getEnvVar('OCR_LANGUAGES', 'eng'),
+
+    // Context window budgeting
+    contextWindowTokens: getEnvVarAsNumber('CONTEXT_WINDOW_TOKENS', 128000),
+    responseReserveTokens: getEnvVarAsNumber('RESPONSE_RESERVE_TOKENS', 8192),
+    summaryTriggerTokens: getEnvVarAsNumber('SUMMARY_TRIGGER_TOKENS', 8000),
+    summaryKeepRecentMessages: getEnvVarAsNumber('SUMMARY_KEEP_RECENT_MESSAGES', 6),
+
+    // Streaming
+    streamResumeGraceMs: getEnvVarAsNumber('STREAM_RESUME_GRACE_SECONDS', 30) * 1000, // Convert seconds to ms
+    streamReplayRetentionMs: getEnvVarAsNumber('STREAM_REPLAY_RETENTION_SECONDS', 120) * 1000,
+
+    // Background jobs
+    jobConcurrency: getEnvVarAsNumber('JOB_CONCURRENCY', 2),
+    jobMaxAttempts: getEnvVarAsNumber('JOB_MAX_ATTEMPTS', 3),
+    jobRetryBaseMs: getEnvVarAsNumber('JOB_RETRY_BASE_SECONDS', 30) * 1000, // Convert seconds to ms
+    jobPollIntervalMs: getEnvVarAsNumber('JOB_POLL_INTERVAL_MS', 2000),
+    jobLockTimeoutMs: getEnvVarAsNumber('JOB_LOCK_TIMEOUT_SECONDS', 300) * 1000, // Convert seconds to ms
+
+    // Vector index
+    vectorIndexType: getEnvVar('VECTOR_INDEX_TYPE', 'hnsw') === 'flat' ? 'flat' : 'hnsw',
+    vectorIndexDir: getEnvVar('VECTOR_INDEX_DIR', path.join(__dirname, '../../data/vector-index')),
+    hnswM: getEnvVarAsNumber('HNSW_M', 16),
+    hnswEfConstruction: getEnvVarAsNumber('HNSW_EF_CONSTRUCTION', 200),
+    hnswEfSearch: getEnvVarAsNumber('HNSW_EF_SEARCH', 64),
+
+    // RAG
+    ragLexicalWeight: parseFloat(getEnvVar('RAG_LEXICAL_WEIGHT', '0.5')),
 };
 
 export const isProduction = config.nodeEnv === 'production';
@@ -1,19 +1,31 @@
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
+import { config } from './index';
 
-// Ensure uploads directory exists
-// Use UPLOADS_DIR env var for production (Coolify volume mount), fallback to local uploads folder
-const uploadDir = process.env.UPLOADS_DIR || path.join(__dirname, '../../uploads');
+// Ensure the staging directory exists
+// Multer writes incoming files here; they are then moved to the storage driver (local disk or S3)
+const uploadDir = config.uploadTempDir;
 if (!fs.existsSync(uploadDir)) {
     fs.mkdirSync(uploadDir, { recursive: true });
 }
 
+// Office formats (Open XML)
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+export const PPTX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
 // File filter - allowed types
 const allowedMimeTypes = [
     // Documents
     'application/pdf',
     'text/plain',
+    'text/markdown',
+    'text/html',
+    DOCX_MIME_TYPE,
+    PPTX_MIME_TYPE,
+    XLSX_MIME_TYPE,
     // Images
     'image/jpeg',
     'image/jpg',
@@ -23,16 +35,36 @@ const allowedMimeTypes = [
     'image/svg+xml',
 ];
 
+// Human-readable list of the types above, for error messages
+export const ALLOWED_FILE_TYPES_LABEL = 'PDF, TXT, Markdown, HTML, DOCX, PPTX, XLSX, JPEG, PNG, GIF, WebP, SVG';
+
+// Browsers often send no specific type for these; the extension decides instead
+const mimeTypesByExtension: Record<string, string> = {
+    '.md': 'text/markdown',
+    '.markdown': 'text/markdown',
+    '.html': 'text/html',
+    '.htm': 'text/html',
+    '.docx': DOCX_MIME_TYPE,
+    '.pptx': PPTX_MIME_TYPE,
+    '.xlsx': XLSX_MIME_TYPE,
+};
+const genericMimeTypes = ['', 'application/octet-stream', 'application/zip', 'text/x-markdown'];
+
 const fileFilter = (
     _req: Express.Request,
     file: Express.Multer.File,
     cb: multer.FileFilterCallback
 ) => {
+    const extensionMimeType = mimeTypesByExtension[path.extname(file.originalname).toLowerCase()];
+    if (extensionMimeType && genericMimeTypes.includes(file.mimetype)) {
+        file.mimetype = extensionMimeType;
+    }
+
     if (allowedMimeTypes.includes(file.mimetype)) {
         cb(null, true);
     } else {
         cb(new Error(
-            `File type ${file.mimetype} is not allowed. Allowed types: PDF, TXT, JPEG, PNG, GIF, WebP, SVG`
+            `File type ${file.mimetype} is not allowed. Allowed types: ${ALLOWED_FILE_TYPES_LABEL}`
         ));
     }
 };
@@ -64,24 +96,29 @@ export const upload = multer({
 });
 
 // Helper to get file type from mimetype
-export function getFileType(mimeType: string): 'PDF' | 'IMAGE' | 'DOCUMENT' | 'OTHER' {
+export function getFileType(mimeType: string): 'PDF' | 'IMAGE' | 'DOCUMENT' | 'PRESENTATION' | 'SPREADSHEET' | 'OTHER' {
     if (mimeType === 'application/pdf') {
         return 'PDF';
     }
     if (mimeType.startsWith('image/')) {
         return 'IMAGE';
     }
-    if (mimeType === 'text/plain') {
+    if (mimeType === PPTX_MIME_TYPE) {
+        return 'PRESENTATION';
+    }
+    if (mimeType === XLSX_MIME_TYPE) {
+        return 'SPREADSHEET';
+    }
+    if (mimeType === DOCX_MIME_TYPE || mimeType.startsWith('text/')) {
         return 'DOCUMENT';
     }
     return 'OTHER';
 }
 
-// Helper to delete file from disk
-export function deleteFileFromDisk(filePath: string): Promise<void> {
+// Helper to delete a staged upload that won't be stored
+export function discardUpload(filePath: string): Promise<void> {
     return new Promise((resolve, reject) => {
-        const fullPath = path.join(uploadDir, path.basename(filePath));
-        fs.unlink(fullPath, (err) => {
+        fs.unlink(filePath, (err) => {
             if (err && err.code !== 'ENOENT') {
                 reject(err);
             } else {
@@ -91,4 +128,13 @@ export function deleteFileFromDisk(filePath: string): Promise<void> {
     });
 }
 
-export const uploadsDirectory = uploadDir;
+// Helper to compute the SHA-256 of a file's content (hex)
+export function hashFileContent(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('data', (chunk) => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')))
+            .on('error', reject);
+    });
+}
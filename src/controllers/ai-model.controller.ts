@@ -0,0 +1,98 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { aiModelService } from '../services/ai-model.service';
+import { asyncHandler } from '../utils';
+
+// ===========================================
+// VALIDATION SCHEMAS
+// ===========================================
+
+export const createAiModelSchema = z.object({
+    modelId: z.string().min(1, 'Model ID is required').max(100),
+    label: z.string().min(1, 'Label is required').max(100),
+    description: z.string().max(1000).optional(),
+    contextWindow: z.number().int().min(1024).optional(),
+    isActive: z.boolean().optional(),
+});
+
+export const updateAiModelSchema = z.object({
+    label: z.string().min(1).max(100).optional(),
+    description: z.string().max(1000).nullable().optional(),
+    contextWindow: z.number().int().min(1024).nullable().optional(),
+    isActive: z.boolean().optional(),
+});
+
+export const aiModelIdParamSchema = z.object({
+    id: z.string().uuid('Invalid model ID format'),
+});
+
+// ===========================================
+// CONTROLLER HANDLERS
+// ===========================================
+
+/**
+ * List chat models available to users
+ * GET /models
+ */
+export const getAvailableModels = asyncHandler(async (_req: Request, res: Response) => {
+    const result = await aiModelService.listAvailable();
+
+    res.status(200).json({
+        success: true,
+        data: result,
+    });
+});
+
+/**
+ * List the full model allowlist
+ * GET /admin/models
+ */
+export const listAiModels = asyncHandler(async (_req: Request, res: Response) => {
+    const models = await aiModelService.findAll();
+
+    res.status(200).json({
+        success: true,
+        data: models,
+    });
+});
+
+/**
+ * Add a model to the allowlist
+ * POST /admin/models
+ */
+export const createAiModel = asyncHandler(async (req: Request, res: Response) => {
+    const model = await aiModelService.create(req.body);
+
+    res.status(201).json({
+        success: true,
+        message: 'Model added successfully',
+        data: model,
+    });
+});
+
+/**
+ * Update an allowlist entry
+ * PATCH /admin/models/:id
+ */
+export const updateAiModel = asyncHandler(async (req: Request, res: Response) => {
+    const model = await aiModelService.update(req.params.id, req.body);
+
+    res.status(200).json({
+        success: true,
+        message: 'Model updated successfully',
+        data: model,
+    });
+});
+
+/**
+ * Remove a model from the allowlist
+ * DELETE /admin/models/:id
+ */
+export const deleteAiModel = asyncHandler(async (req: Request, res: Response) => {
+    await aiModelService.delete(req.params.id);
+
+    res.status(200).json({
+        success: true,
+        message: 'Model removed successfully',
+    });
+});
@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { authService } from '../services';
+import { quotaService } from '../services/quota.service';
 import { asyncHandler } from '../utils';
 import { AuthenticatedRequest } from '../middlewares';
 
@@ -28,6 +29,7 @@ export const loginSchema = z.object({
 
 export const updateProfileSchema = z.object({
     name: z.string().min(1).max(100).optional(),
+    defaultAiModel: z.string().min(1).max(100).nullable().optional(),
 });
 
 export const changePasswordSchema = z.object({
@@ -51,6 +53,22 @@ export const resendOTPSchema = z.object({
     email: z.string().email('Invalid email format'),
 });
 
+export const forgotPasswordSchema = z.object({
+    email: z.string().email('Invalid email format'),
+});
+
+export const resetPasswordSchema = z.object({
+    token: z.string().min(1, 'Reset token is required').max(200),
+    newPassword: z
+        .string()
+        .min(8, 'Password must be at least 8 characters')
+        .max(128, 'Password must be at most 128 characters')
+        .regex(
+            /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/,
+            'Password must contain at least one uppercase letter, one lowercase letter, and one number'
+        ),
+});
+
 // ===========================================
 // CONTROLLER HANDLERS
 // ===========================================
@@ -96,6 +114,32 @@ export const resendOTP = asyncHandler(async (req: Request, res: Response) => {
     });
 });
 
+/**
+ * Request a password reset email
+ * POST /auth/forgot-password
+ */
+export const forgotPassword = asyncHandler(async (req: Request, res: Response) => {
+    const result = await authService.forgotPassword(req.body.email);
+
+    res.status(200).json({
+        success: true,
+        message: result.message,
+    });
+});
+
+/**
+ * Reset password with an emailed token
+ * POST /auth/reset-password
+ */
+export const resetPassword = asyncHandler(async (req: Request, res: Response) => {
+    await authService.resetPassword(req.body);
+
+    res.status(200).json({
+        success: true,
+        message: 'Password reset successfully. Please log in with your new password.',
+    });
+});
+
 /**
  * Login user
  * POST /auth/login
@@ -124,6 +168,20 @@ export const getProfile = asyncHandler(async (req: Request, res: Response) => {
     });
 });
 
+/**
+ * Get current user's plan, usage and limits
+ * GET /auth/me/usage
+ */
+export const getUsage = asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const usage = await quotaService.getUsage(authReq.user.id);
+
+    res.status(200).json({
+        success: true,
+        data: usage,
+    });
+});
+
 /**
  * Update current user profile
  * PATCH /auth/me
@@ -1,9 +1,9 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { conversationService, aiService } from '../services';
+import { conversationService, aiService, messageService } from '../services';
+import { conversationSummaryService } from '../services/conversation-summary.service';
 import { asyncHandler } from '../utils';
 import { AuthenticatedRequest } from '../middlewares';
-import prisma from '../config/database';
 
 // ===========================================
 // VALIDATION SCHEMAS
@@ -65,12 +65,9 @@ export const createConversation = asyncHandler(async (req: Request, res: Respons
         });
 
         // Create user message
-        const userMessage = await prisma.message.create({
-            data: {
-                content: initialMessage,
-                role: 'USER',
-                conversationId: conversation.id,
-            },
+        const userMessage = await messageService.create(authReq.user.id, conversation.id, {
+            content: initialMessage,
+            role: 'USER',
         });
 
         // Get AI response
@@ -78,13 +75,11 @@ export const createConversation = asyncHandler(async (req: Request, res: Respons
             { role: 'user', content: initialMessage },
         ]);
 
-        // Save AI response
-        const assistantMessage = await prisma.message.create({
-            data: {
-                content: aiResponse,
-                role: 'ASSISTANT',
-                conversationId: conversation.id,
-            },
+        // Save AI response as the reply to the first message
+        const assistantMessage = await messageService.create(authReq.user.id, conversation.id, {
+            content: aiResponse,
+            role: 'ASSISTANT',
+            parentId: userMessage.id,
         });
 
         // Return conversation with messages
@@ -208,3 +203,18 @@ export const togglePinConversation = asyncHandler(async (req: Request, res: Resp
     });
 });
 
+
+/**
+ * Get the rolling summary of a conversation's older messages
+ * GET /conversations/:conversationId/summary
+ */
+export const getConversationSummary = asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const { conversationId } = req.params;
+    const summary = await conversationSummaryService.getSummary(authReq.user.id, conversationId);
+
+    res.status(200).json({
+        success: true,
+        data: summary,
+    });
+});
@@ -0,0 +1,43 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { embeddingMigrationService } from '../services/embedding-migration.service';
+import { asyncHandler } from '../utils';
+
+// ===========================================
+// VALIDATION SCHEMAS
+// ===========================================
+
+export const startEmbeddingMigrationSchema = z.object({
+    model: z.string().min(1, 'Model is required').max(100),
+});
+
+// ===========================================
+// CONTROLLER HANDLERS
+// ===========================================
+
+/**
+ * Get the active embedding model and the progress of the latest migration
+ * GET /admin/embeddings/migration
+ */
+export const getEmbeddingMigration = asyncHandler(async (_req: Request, res: Response) => {
+    const status = await embeddingMigrationService.getStatus();
+
+    res.status(200).json({
+        success: true,
+        data: status,
+    });
+});
+
+/**
+ * Start re-embedding all chunks with a new embedding model
+ * POST /admin/embeddings/migration
+ */
+export const startEmbeddingMigration = asyncHandler(async (req: Request, res: Response) => {
+    const migration = await embeddingMigrationService.start(req.body.model);
+
+    res.status(202).json({
+        success: true,
+        message: 'Embedding migration started',
+        data: migration,
+    });
+});
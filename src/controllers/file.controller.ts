@@ -1,8 +1,11 @@
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
 import { z } from 'zod';
 import { fileService, UploadedFile } from '../services/file.service';
+import { fileProgressService } from '../services/file-progress.service';
+import { storage, ByteRange } from '../services/storage.service';
+import { setSseHeaders } from '../services/generation-registry.service';
 import { asyncHandler } from '../utils';
-import { AuthenticatedRequest } from '../middlewares';
+import { authenticate, AuthenticatedRequest } from '../middlewares';
 import { FileTag } from '@prisma/client';
 
 // ===========================================
@@ -24,10 +27,35 @@ export const updateFileTagSchema = z.object({
 export const listQuerySchema = z.object({
     page: z.coerce.number().int().positive().optional(),
     limit: z.coerce.number().int().positive().max(100).optional(),
-    type: z.enum(['PDF', 'IMAGE', 'DOCUMENT', 'OTHER']).optional(),
+    type: z.enum(['PDF', 'IMAGE', 'DOCUMENT', 'PRESENTATION', 'SPREADSHEET', 'OTHER']).optional(),
     tag: z.enum(['EXAM', 'EXERCISE', 'COURSE']).optional(),
 });
 
+export const downloadQuerySchema = z.object({
+    expires: z.coerce.number().int().positive().optional(),
+    signature: z.string().min(1).optional(),
+}).refine(
+    (query) => (query.expires === undefined) === (query.signature === undefined),
+    { message: 'expires and signature must be provided together', path: ['signature'] }
+);
+
+const PROGRESS_HEARTBEAT_MS = 25000;
+
+/**
+ * Content-Disposition value that survives non-ASCII file names
+ */
+function inlineDisposition(fileName: string): string {
+    const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    return `inline; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * Types a browser may run scripts in when opened (HTML, SVG, XML documents)
+ */
+function isScriptable(mimeType: string): boolean {
+    return mimeType === 'text/html' || mimeType === 'text/xml' || mimeType === 'application/xml' || mimeType.endsWith('+xml');
+}
+
 // ===========================================
 // CONTROLLER HANDLERS
 // ===========================================
@@ -92,6 +120,32 @@ export const getFilesBySubject = asyncHandler(async (req: Request, res: Response
     });
 });
 
+/**
+ * Stream processing progress of a subject's files using SSE.
+ * Sends a snapshot of the files in the pipeline, then every progress update.
+ * GET /subjects/:subjectId/files/progress
+ */
+export const streamProcessingProgress = asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const { subjectId } = req.params;
+    const files = await fileService.getProcessingProgress(authReq.user.id, subjectId);
+
+    setSseHeaders(res);
+    res.write(`data: ${JSON.stringify({ type: 'snapshot', data: files })}\n\n`);
+
+    const unsubscribe = fileProgressService.subscribe(subjectId, (progress) => {
+        res.write(`data: ${JSON.stringify({ type: 'progress', data: progress })}\n\n`);
+    });
+
+    // Comment lines keep proxies from closing the stream while nothing is processing
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), PROGRESS_HEARTBEAT_MS);
+
+    res.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+    });
+});
+
 /**
  * Get all files for the current user (across all subjects)
  * GET /files
@@ -121,6 +175,92 @@ export const getFile = asyncHandler(async (req: Request, res: Response) => {
     });
 });
 
+/**
+ * Authenticate a download: signed URLs (for <img>/<iframe>) carry their own proof,
+ * everything else needs the usual bearer token
+ */
+export const authenticateDownload = (req: Request, res: Response, next: NextFunction): Promise<void> | void => {
+    if (typeof req.query.signature === 'string') {
+        return next();
+    }
+    return authenticate(req, res, next);
+};
+
+/**
+ * Download a file's content. Supports Range requests (PDF viewers, media seeking).
+ * GET /files/:fileId/download
+ */
+export const downloadFile = asyncHandler(async (req: Request, res: Response, next: NextFunction) => {
+    const { fileId } = req.params;
+    const { expires, signature } = req.query as z.infer<typeof downloadQuerySchema>;
+
+    const { file, size } = await fileService.getDownload(
+        fileId,
+        expires !== undefined && signature !== undefined
+            ? { expires, signature }
+            : { userId: (req as AuthenticatedRequest).user.id }
+    );
+
+    res.set({
+        'Content-Type': file.mimeType,
+        'Content-Disposition': inlineDisposition(file.originalName),
+        'Accept-Ranges': 'bytes',
+        'Cache-Control': 'private, no-cache',
+        // Frontend pages on another origin embed files in <img>/<iframe>
+        'Cross-Origin-Resource-Policy': 'cross-origin',
+    });
+    // Uploaded HTML/SVG must not run scripts on the API origin. Not for other types:
+    // browsers' PDF viewers don't render in a sandboxed document.
+    if (isScriptable(file.mimeType)) {
+        res.set('Content-Security-Policy', 'sandbox');
+    }
+
+    // Single ranges are served partially; malformed or multi-range requests get the whole file
+    const ranges = req.range(size, { combine: true });
+    if (ranges === -1) {
+        res.status(416).set('Content-Range', `bytes */${size}`).end();
+        return;
+    }
+
+    let range: ByteRange | undefined;
+    if (Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1) {
+        range = { start: ranges[0].start, end: ranges[0].end };
+        res.status(206).set('Content-Range', `bytes ${range.start}-${range.end}/${size}`);
+    }
+
+    res.set('Content-Length', String(range ? range.end - range.start + 1 : size));
+    if (size === 0 || req.method === 'HEAD') {
+        res.end();
+        return;
+    }
+
+    const stream = await storage.createReadStream(file.path, range);
+    stream.on('error', (error) => {
+        if (res.headersSent) {
+            res.destroy(error);
+        } else {
+            next(error);
+        }
+    });
+    res.on('close', () => stream.destroy());
+    stream.pipe(res);
+});
+
+/**
+ * Get a short-lived signed download URL
+ * GET /files/:fileId/download-url
+ */
+export const getDownloadUrl = asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const { fileId } = req.params;
+    const result = await fileService.createDownloadUrl(authReq.user.id, fileId);
+
+    res.status(200).json({
+        success: true,
+        data: result,
+    });
+});
+
 /**
  * Update file tag
  * PATCH /files/:fileId
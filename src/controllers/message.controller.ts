@@ -3,8 +3,9 @@ import { z } from 'zod';
 import prisma from '../config/database';
 import { messageService } from '../services/message.service';
 import { aiService } from '../services/ai.service';
-import { conversationService } from '../services/conversation.service';
-import { asyncHandler } from '../utils';
+import { aiModelService } from '../services/ai-model.service';
+import { generationRegistry, parseEventId, setSseHeaders } from '../services/generation-registry.service';
+import { asyncHandler, AppError } from '../utils';
 import { AuthenticatedRequest } from '../middlewares';
 
 // ===========================================
@@ -13,12 +14,26 @@ import { AuthenticatedRequest } from '../middlewares';
 
 export const sendMessageSchema = z.object({
     content: z.string().min(1, 'Message content is required').max(10000, 'Message must be at most 10000 characters'),
+    model: z.string().min(1).max(100).optional(),
 });
 
 export const conversationIdParamSchema = z.object({
     conversationId: z.string().uuid('Invalid conversation ID format'),
 });
 
+export const messageIdParamSchema = z.object({
+    conversationId: z.string().uuid('Invalid conversation ID format'),
+    messageId: z.string().uuid('Invalid message ID format'),
+});
+
+export const regenerateMessageSchema = z.object({
+    model: z.string().min(1).max(100).optional(),
+});
+
+export const resumeStreamQuerySchema = z.object({
+    lastEventId: z.string().max(100).optional(),
+});
+
 // ===========================================
 // CONTROLLER HANDLERS
 // ===========================================
@@ -30,12 +45,13 @@ export const conversationIdParamSchema = z.object({
 export const sendMessage = asyncHandler(async (req: Request, res: Response) => {
     const authReq = req as AuthenticatedRequest;
     const { conversationId } = req.params;
-    const { content } = req.body;
+    const { content, model } = req.body;
 
     const result = await messageService.sendMessageAndGetResponse(
         authReq.user.id,
         conversationId,
-        content
+        content,
+        model
     );
 
     res.status(201).json({
@@ -46,74 +62,98 @@ export const sendMessage = asyncHandler(async (req: Request, res: Response) => {
 });
 
 /**
- * Send a message and stream AI response using SSE
+ * Send a message and stream AI response using SSE.
+ * A retry carrying `Last-Event-ID` resumes the earlier stream instead of sending the message again.
  * POST /conversations/:conversationId/messages/stream
  */
 export const sendMessageStream = asyncHandler(async (req: Request, res: Response) => {
     const authReq = req as AuthenticatedRequest;
     const { conversationId } = req.params;
-    const { content } = req.body;
+    const { content, model } = req.body;
+
+    const lastEvent = parseEventId(req.get('Last-Event-ID'));
+    if (lastEvent) {
+        await messageService.resumeStream(authReq.user.id, conversationId, lastEvent.messageId, lastEvent.sequence, res);
+        return;
+    }
 
     // Verify ownership
-    await conversationService.verifyOwnership(authReq.user.id, conversationId);
-
-    // Create user message
-    const userMessage = await prisma.message.create({
-        data: {
-            content,
-            role: 'USER',
-            conversationId,
-        },
+    const conversation = await prisma.conversation.findFirst({
+        where: { id: conversationId, userId: authReq.user.id },
+        select: { subjectId: true },
     });
 
-    // Update conversation timestamp
-    await prisma.conversation.update({
-        where: { id: conversationId },
-        data: { updatedAt: new Date() },
-    });
+    if (!conversation) {
+        throw AppError.notFound('Conversation not found', 'CONVERSATION_NOT_FOUND');
+    }
+
+    const chatModel = await aiModelService.resolve(authReq.user.id, conversation.subjectId, model);
 
-    // Get conversation history for context
-    const messages = await prisma.message.findMany({
-        where: { conversationId },
-        orderBy: { createdAt: 'asc' },
+    // Create user message at the end of the active branch
+    const userMessage = await messageService.create(authReq.user.id, conversationId, {
+        content,
+        role: 'USER',
     });
 
-    const history = messages.map((msg) => ({
-        role: msg.role.toLowerCase() as 'user' | 'assistant' | 'system',
-        content: msg.content,
-    }));
+    // Get conversation history for context (active branch only)
+    const history = await messageService.getConversationHistory(authReq.user.id, conversationId, userMessage.id);
 
-    // Set up SSE headers BEFORE any response writing
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.setHeader('X-Accel-Buffering', 'no');
+    // Create the assistant message up front: its ID keys the stop endpoint and the replay buffer
+    const placeholder = await messageService.create(authReq.user.id, conversationId, {
+        content: '',
+        role: 'ASSISTANT',
+        parentId: userMessage.id,
+        model: chatModel,
+        status: 'STREAMING',
+    });
 
-    // Send user message first
-    res.write(`data: ${JSON.stringify({ type: 'userMessage', data: userMessage })}\n\n`);
+    // Events are buffered for clients reconnecting with Last-Event-ID
+    const stream = generationRegistry.start(placeholder.id, authReq.user.id);
+    setSseHeaders(res);
+    stream.attach(res);
+
+    stream.send({ type: 'userMessage', data: userMessage });
+    stream.send({ type: 'assistantMessageStart', data: { id: placeholder.id, parentId: userMessage.id, model: chatModel } });
 
     try {
         // Stream the AI response
-        const accumulatedContent = await aiService.chatStream(history, res);
-
-        // Save the complete AI response to database
-        const assistantMessage = await prisma.message.create({
-            data: {
-                content: accumulatedContent,
-                role: 'ASSISTANT',
-                conversationId,
-            },
+        const completion = await aiService.chatStream(history, stream, undefined, chatModel, stream.signal);
+
+        // Save the complete (or partial, if stopped) AI response to database
+        const assistantMessage = await messageService.finishAssistantMessage(placeholder.id, {
+            content: completion.content,
+            citations: [],
+            usage: completion.usage,
+            status: completion.stopped ? 'STOPPED' : 'COMPLETED',
         });
 
         // Send the final saved message
-        res.write(`data: ${JSON.stringify({ type: 'assistantMessage', data: assistantMessage })}\n\n`);
-        res.end();
+        stream.send({ type: 'assistantMessage', data: assistantMessage });
     } catch (error) {
         console.error('Stream error:', error);
-        res.end();
+        await messageService.finishAssistantMessage(placeholder.id, { content: '', citations: [], status: 'FAILED' })
+            .catch(err => console.error('Failed to mark message as failed:', err));
+    } finally {
+        generationRegistry.finish(placeholder.id);
     }
 });
 
+/**
+ * Reconnect to a streamed reply: replays the events after `Last-Event-ID`
+ * (header, or `lastEventId` query for clients that can't set headers), then follows the live stream
+ * GET /conversations/:conversationId/messages/:messageId/stream
+ */
+export const resumeStream = asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const { conversationId, messageId } = req.params;
+
+    // Event IDs from another message's stream are ignored: replay from the start
+    const lastEvent = parseEventId(req.get('Last-Event-ID') ?? req.query.lastEventId);
+    const sequence = lastEvent?.messageId === messageId ? lastEvent.sequence : 0;
+
+    await messageService.resumeStream(authReq.user.id, conversationId, messageId, sequence, res);
+});
+
 /**
  * Get all messages for a conversation
  * GET /conversations/:conversationId/messages
@@ -132,3 +172,90 @@ export const getMessages = asyncHandler(async (req: Request, res: Response) => {
         data: messages,
     });
 });
+
+/**
+ * Regenerate an assistant reply as a new sibling branch
+ * POST /conversations/:conversationId/messages/:messageId/regenerate
+ */
+export const regenerateMessage = asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const { conversationId, messageId } = req.params;
+
+    const result = await messageService.regenerate(
+        authReq.user.id,
+        conversationId,
+        messageId,
+        req.body.model
+    );
+
+    res.status(201).json({
+        success: true,
+        message: 'Response regenerated successfully',
+        data: result,
+    });
+});
+
+/**
+ * Edit a user message and resend it, creating a sibling branch
+ * PATCH /conversations/:conversationId/messages/:messageId
+ */
+export const editMessage = asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const { conversationId, messageId } = req.params;
+    const { content, model } = req.body;
+
+    const result = await messageService.editAndResend(
+        authReq.user.id,
+        conversationId,
+        messageId,
+        content,
+        model
+    );
+
+    res.status(201).json({
+        success: true,
+        message: 'Message edited successfully',
+        data: result,
+    });
+});
+
+/**
+ * Switch the active branch to the one containing a message
+ * POST /conversations/:conversationId/messages/:messageId/activate
+ */
+export const switchBranch = asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const { conversationId, messageId } = req.params;
+
+    const messages = await messageService.switchBranch(
+        authReq.user.id,
+        conversationId,
+        messageId
+    );
+
+    res.status(200).json({
+        success: true,
+        data: messages,
+    });
+});
+
+/**
+ * Stop a streaming assistant reply; the partial answer is kept with status STOPPED
+ * POST /conversations/:conversationId/messages/:messageId/stop
+ */
+export const stopGeneration = asyncHandler(async (req: Request, res: Response) => {
+    const authReq = req as AuthenticatedRequest;
+    const { conversationId, messageId } = req.params;
+
+    const result = await messageService.stopGeneration(
+        authReq.user.id,
+        conversationId,
+        messageId
+    );
+
+    res.status(200).json({
+        success: true,
+        message: 'Generation stopped',
+        data: result,
+    });
+});
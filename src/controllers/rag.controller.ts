@@ -3,6 +3,7 @@ import { messageService } from '../services/message.service';
 import { aiService } from '../services/ai.service';
 import { ragService } from '../services/rag.service';
 import { subjectService } from '../services/subject.service';
+import { parseEventId } from '../services/generation-registry.service';
 import { AppError } from '../utils';
 
 /**
@@ -14,7 +15,7 @@ export class RAGController {
      */
     async query(req: Request, res: Response) {
         const userId = (req as any).user.id;
-        const { conversationId, content } = req.body;
+        const { conversationId, content, model } = req.body;
 
         if (!content) {
             throw AppError.badRequest('Content is required');
@@ -24,10 +25,15 @@ export class RAGController {
             throw AppError.badRequest('ConversationId is required');
         }
 
+        if (model !== undefined && typeof model !== 'string') {
+            throw AppError.badRequest('Model must be a string');
+        }
+
         const result = await messageService.sendMessageAndGetResponse(
             userId,
             conversationId,
-            content
+            content,
+            model
         );
 
         res.json({
@@ -41,7 +47,7 @@ export class RAGController {
      */
     async queryStream(req: Request, res: Response) {
         const userId = (req as any).user.id;
-        const { conversationId, content } = req.body;
+        const { conversationId, content, model } = req.body;
 
         if (!content) {
             throw AppError.badRequest('Content is required');
@@ -51,11 +57,23 @@ export class RAGController {
             throw AppError.badRequest('ConversationId is required');
         }
 
+        if (model !== undefined && typeof model !== 'string') {
+            throw AppError.badRequest('Model must be a string');
+        }
+
+        // A retry carrying Last-Event-ID resumes the earlier stream instead of asking again
+        const lastEvent = parseEventId(req.get('Last-Event-ID'));
+        if (lastEvent) {
+            await messageService.resumeStream(userId, conversationId, lastEvent.messageId, lastEvent.sequence, res);
+            return;
+        }
+
         await messageService.streamMessageAndGetResponse(
             userId,
             conversationId,
             content,
-            res
+            res,
+            model
         );
     }
 
@@ -85,7 +103,13 @@ export class RAGController {
             status: 'success',
             data: {
                 questions,
-                sources: retrievalResult.chunks.map(c => ({ fileName: c.fileName, fileId: c.fileId }))
+                sources: retrievalResult.chunks.map(c => ({
+                    fileName: c.fileName,
+                    fileId: c.fileId,
+                    startPage: c.startPage ?? null,
+                    endPage: c.endPage ?? null,
+                    sectionPath: ragService.sectionPath(c)
+                }))
             }
         });
     }
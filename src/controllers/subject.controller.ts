@@ -11,11 +11,13 @@ import { AuthenticatedRequest } from '../middlewares';
 export const createSubjectSchema = z.object({
     title: z.string().min(1, 'Title is required').max(200, 'Title must be at most 200 characters'),
     description: z.string().max(2000, 'Description must be at most 2000 characters').optional(),
+    aiModel: z.string().min(1).max(100).nullable().optional(),
 });
 
 export const updateSubjectSchema = z.object({
     title: z.string().min(1).max(200).optional(),
     description: z.string().max(2000).optional(),
+    aiModel: z.string().min(1).max(100).nullable().optional(),
 });
 
 export const subjectIdParamSchema = z.object({
@@ -20,6 +20,7 @@ interface JwtPayload {
     userId: string;
     email: string;
     role: UserRole;
+    tokenVersion?: number; // Absent in tokens issued before session revocation existed
     iat: number;
     exp: number;
 }
@@ -60,13 +61,18 @@ export const authenticate = async (
         // Verify user still exists in database and get current role
         const user = await prisma.user.findUnique({
             where: { id: decoded.userId },
-            select: { id: true, email: true, role: true },
+            select: { id: true, email: true, role: true, tokenVersion: true },
         });
 
         if (!user) {
             throw AppError.unauthorized('User no longer exists', 'USER_NOT_FOUND');
         }
 
+        // Sessions are revoked by bumping the user's token version (e.g. on password reset)
+        if ((decoded.tokenVersion ?? 0) !== user.tokenVersion) {
+            throw AppError.unauthorized('Session has been revoked, please log in again', 'TOKEN_REVOKED');
+        }
+
         // Attach user to request object (use DB role for most up-to-date)
         (req as AuthenticatedRequest).user = {
             id: user.id,
@@ -1,3 +1,4 @@
 export { authenticate, optionalAuth, AuthenticatedRequest } from './auth.middleware';
 export { validate, validateAll } from './validate.middleware';
 export { errorHandler, notFoundHandler } from './error.middleware';
+export { apiLimiter, authLimiter, otpLimiter, aiLimiter } from './rate-limit.middleware';
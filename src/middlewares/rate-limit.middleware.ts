@@ -0,0 +1,131 @@
+import { Request, Response, NextFunction } from 'express';
+import rateLimit, { IncrementResponse, Store } from 'express-rate-limit';
+import { config } from '../config';
+import { AppError } from '../utils';
+import { rateLimitStore, TokenBucket } from '../services/rate-limit-store.service';
+import { AuthenticatedRequest } from './auth.middleware';
+
+/**
+ * A named limit: a token bucket per client key
+ */
+interface RateLimitPolicy extends TokenBucket {
+    name: string;
+    message: string;
+    key: (req: Request) => string;
+}
+
+/**
+ * express-rate-limit store backed by the token buckets of `rateLimitStore`.
+ * Hits are the tokens spent; a request that finds the bucket empty counts as one over the limit.
+ */
+class TokenBucketStore implements Store {
+    readonly prefix: string;
+    readonly localKeys = config.rateLimitStore === 'memory';
+
+    constructor(private policy: RateLimitPolicy) {
+        this.prefix = `${policy.name}:`;
+    }
+
+    async increment(key: string): Promise<IncrementResponse> {
+        const state = await rateLimitStore.take(this.prefix + key, this.policy);
+        return {
+            totalHits: state.allowed ? this.policy.capacity - state.remaining : this.policy.capacity + 1,
+            resetTime: state.resetAt,
+        };
+    }
+
+    async decrement(key: string): Promise<void> {
+        await rateLimitStore.refund(this.prefix + key, this.policy);
+    }
+
+    async resetKey(key: string): Promise<void> {
+        await rateLimitStore.reset(this.prefix + key);
+    }
+}
+
+/**
+ * Build a middleware enforcing `policy`. Sends the RateLimit-* headers on every response,
+ * plus Retry-After when the request is refused.
+ */
+function createLimiter(policy: RateLimitPolicy) {
+    return rateLimit({
+        windowMs: policy.refillMs,
+        limit: policy.capacity,
+        standardHeaders: 'draft-6',
+        legacyHeaders: false,
+        store: new TokenBucketStore(policy),
+        keyGenerator: policy.key,
+        handler: (_req: Request, _res: Response, next: NextFunction) => {
+            next(AppError.tooManyRequests(policy.message, 'RATE_LIMITED'));
+        },
+        // A store outage (e.g. the database) shouldn't take the API down with it
+        passOnStoreError: true,
+    });
+}
+
+function clientIp(req: Request): string {
+    return req.ip || req.socket.remoteAddress || 'unknown';
+}
+
+/**
+ * The authenticated user, or the client IP before authentication
+ */
+function userOrIp(req: Request): string {
+    const user = (req as AuthenticatedRequest).user;
+    return user ? `user:${user.id}` : `ip:${clientIp(req)}`;
+}
+
+/**
+ * The email address a code is sent to or checked for, so guessing an OTP or
+ * flooding an inbox is limited whichever IPs the requests come from
+ */
+function emailOrIp(req: Request): string {
+    const email = req.body?.email;
+    return typeof email === 'string' && email.trim()
+        ? `email:${email.trim().toLowerCase()}`
+        : `ip:${clientIp(req)}`;
+}
+
+/**
+ * Default policy for every API request, per client IP. Lenient: it only stops floods.
+ */
+export const apiLimiter = createLimiter({
+    name: 'api',
+    capacity: config.rateLimitMax,
+    refillMs: config.rateLimitWindowMs,
+    message: 'Too many requests, please slow down',
+    key: req => `ip:${clientIp(req)}`,
+});
+
+/**
+ * Login, registration and OAuth callback, per client IP
+ */
+export const authLimiter = createLimiter({
+    name: 'auth',
+    capacity: config.rateLimitAuthMax,
+    refillMs: config.rateLimitAuthWindowMs,
+    message: 'Too many authentication attempts, please try again later',
+    key: req => `ip:${clientIp(req)}`,
+});
+
+/**
+ * Email verification, OTP resends and password reset requests, per email address
+ */
+export const otpLimiter = createLimiter({
+    name: 'otp',
+    capacity: config.rateLimitOtpMax,
+    refillMs: config.rateLimitOtpWindowMs,
+    message: 'Too many requests for this email, please try again later',
+    key: emailOrIp,
+});
+
+/**
+ * Endpoints that call the AI model, per user. Must be used after authenticate.
+ */
+export const aiLimiter = createLimiter({
+    name: 'ai',
+    capacity: config.rateLimitAiMax,
+    refillMs: config.rateLimitAiWindowMs,
+    message: 'Too many AI requests, please wait a moment',
+    key: userOrIp,
+});
@@ -1,7 +1,22 @@
 import { Router } from 'express';
 import { authenticate } from '../middlewares/auth.middleware';
 import { requireAdmin } from '../middlewares/requireAdmin.middleware';
+import { validate } from '../middlewares/validate.middleware';
 import { adminController } from '../controllers/admin.controller';
+import {
+    listAiModels,
+    createAiModel,
+    updateAiModel,
+    deleteAiModel,
+    createAiModelSchema,
+    updateAiModelSchema,
+    aiModelIdParamSchema,
+} from '../controllers/ai-model.controller';
+import {
+    getEmbeddingMigration,
+    startEmbeddingMigration,
+    startEmbeddingMigrationSchema,
+} from '../controllers/embedding-migration.controller';
 
 const router = Router();
 
@@ -51,4 +66,46 @@ router.get('/users/:userId/conversations', adminController.getUserConversations
  */
 router.get('/conversations/:conversationId/messages', adminController.getConversationMessages as any);
 
+/**
+ * @route   GET /admin/models
+ * @desc    List the chat model allowlist (including inactive entries)
+ * @access  SUPERADMIN only
+ */
+router.get('/models', listAiModels);
+
+/**
+ * @route   POST /admin/models
+ * @desc    Add a chat model to the allowlist
+ * @access  SUPERADMIN only
+ */
+router.post('/models', validate(createAiModelSchema), createAiModel);
+
+/**
+ * @route   PATCH /admin/models/:id
+ * @desc    Update an allowlist entry (label, description, active flag)
+ * @access  SUPERADMIN only
+ */
+router.patch('/models/:id', validate(aiModelIdParamSchema, 'params'), validate(updateAiModelSchema), updateAiModel);
+
+/**
+ * @route   DELETE /admin/models/:id
+ * @desc    Remove a chat model from the allowlist
+ * @access  SUPERADMIN only
+ */
+router.delete('/models/:id', validate(aiModelIdParamSchema, 'params'), deleteAiModel);
+
+/**
+ * @route   GET /admin/embeddings/migration
+ * @desc    Get the active embedding model and re-embedding progress
+ * @access  SUPERADMIN only
+ */
+router.get('/embeddings/migration', getEmbeddingMigration);
+
+/**
+ * @route   POST /admin/embeddings/migration
+ * @desc    Re-embed all chunks with a new embedding model (cuts over when done)
+ * @access  SUPERADMIN only
+ */
+router.post('/embeddings/migration', validate(startEmbeddingMigrationSchema), startEmbeddingMigration);
+
 export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { authenticate } from '../middlewares';
+import { getAvailableModels } from '../controllers/ai-model.controller';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /models
+ * @desc    List chat models users can select (per request, subject or user default)
+ * @access  Private
+ */
+router.get('/', getAvailableModels);
+
+export default router;
@@ -1,11 +1,14 @@
 import { Router } from 'express';
-import { authenticate, validate } from '../middlewares';
+import { authenticate, validate, authLimiter, otpLimiter } from '../middlewares';
 import {
     register,
     login,
     verifyEmail,
     resendOTP,
+    forgotPassword,
+    resetPassword,
     getProfile,
+    getUsage,
     updateProfile,
     changePassword,
     githubAuth,
@@ -14,6 +17,8 @@ import {
     loginSchema,
     verifyEmailSchema,
     resendOTPSchema,
+    forgotPasswordSchema,
+    resetPasswordSchema,
     updateProfileSchema,
     changePasswordSchema,
 } from '../controllers/auth.controller';
@@ -29,28 +34,42 @@ const router = Router();
  * @desc    Register a new user
  * @access  Public
  */
-router.post('/register', validate(registerSchema), register);
+router.post('/register', authLimiter, validate(registerSchema), register);
 
 /**
  * @route   POST /auth/verify-email
  * @desc    Verify email with OTP
  * @access  Public
  */
-router.post('/verify-email', validate(verifyEmailSchema), verifyEmail);
+router.post('/verify-email', otpLimiter, validate(verifyEmailSchema), verifyEmail);
 
 /**
  * @route   POST /auth/resend-otp
  * @desc    Resend OTP for email verification
  * @access  Public
  */
-router.post('/resend-otp', validate(resendOTPSchema), resendOTP);
+router.post('/resend-otp', otpLimiter, validate(resendOTPSchema), resendOTP);
 
 /**
  * @route   POST /auth/login
  * @desc    Login user and get token
  * @access  Public
  */
-router.post('/login', validate(loginSchema), login);
+router.post('/login', authLimiter, validate(loginSchema), login);
+
+/**
+ * @route   POST /auth/forgot-password
+ * @desc    Email a password reset link (same response whether or not the account exists)
+ * @access  Public
+ */
+router.post('/forgot-password', otpLimiter, validate(forgotPasswordSchema), forgotPassword);
+
+/**
+ * @route   POST /auth/reset-password
+ * @desc    Set a new password with a reset token and sign out all sessions
+ * @access  Public
+ */
+router.post('/reset-password', authLimiter, validate(resetPasswordSchema), resetPassword);
 
 /**
  * @route   GET /auth/github
@@ -64,7 +83,7 @@ router.get('/github', githubAuth);
  * @desc    Handle GitHub OAuth callback
  * @access  Public
  */
-router.post('/github/callback', githubCallback);
+router.post('/github/callback', authLimiter, githubCallback);
 
 // ===========================================
 // PROTECTED ROUTES
@@ -77,6 +96,13 @@ router.post('/github/callback', githubCallback);
  */
 router.get('/me', authenticate, getProfile);
 
+/**
+ * @route   GET /auth/me/usage
+ * @desc    Get current user's plan, quota usage and limits
+ * @access  Private
+ */
+router.get('/me/usage', authenticate, getUsage);
+
 /**
  * @route   PATCH /auth/me
  * @desc    Update current user profile
@@ -92,6 +118,7 @@ router.patch('/me', authenticate, validate(updateProfileSchema), updateProfile);
 router.post(
     '/change-password',
     authenticate,
+    authLimiter,
     validate(changePasswordSchema),
     changePassword
 );
@@ -6,6 +6,7 @@ import {
     updateConversation,
     deleteConversation,
     togglePinConversation,
+    getConversationSummary,
     updateConversationSchema,
     conversationIdParamSchema,
     listQuerySchema,
@@ -38,6 +39,17 @@ router.get(
     getConversation
 );
 
+/**
+ * @route   GET /conversations/:conversationId/summary
+ * @desc    Get the rolling summary of older messages in a conversation
+ * @access  Private
+ */
+router.get(
+    '/:conversationId/summary',
+    validate(conversationIdParamSchema, 'params'),
+    getConversationSummary
+);
+
 /**
  * @route   PATCH /conversations/:conversationId
  * @desc    Update a conversation
@@ -3,6 +3,9 @@ import { authenticate, validate, validateAll } from '../middlewares';
 import {
     getAllFiles,
     getFile,
+    downloadFile,
+    getDownloadUrl,
+    authenticateDownload,
     updateFileTag,
     deleteFile,
     getFileStatus,
@@ -10,11 +13,27 @@ import {
     fileIdParamSchema,
     updateFileTagSchema,
     listQuerySchema,
+    downloadQuerySchema,
 } from '../controllers/file.controller';
 
 const router = Router();
 
-// All routes require authentication
+/**
+ * @route   GET /files/:fileId/download
+ * @desc    Download file content (supports Range requests)
+ * @access  Private (bearer token, or a signed URL from GET /files/:fileId/download-url)
+ */
+router.get(
+    '/:fileId/download',
+    validateAll({
+        params: fileIdParamSchema,
+        query: downloadQuerySchema,
+    }),
+    authenticateDownload,
+    downloadFile
+);
+
+// All other routes require authentication
 router.use(authenticate);
 
 // ===========================================
@@ -39,6 +58,17 @@ router.get(
     getFile
 );
 
+/**
+ * @route   GET /files/:fileId/download-url
+ * @desc    Get a short-lived signed download URL for <img>/<iframe> embedding
+ * @access  Private
+ */
+router.get(
+    '/:fileId/download-url',
+    validate(fileIdParamSchema, 'params'),
+    getDownloadUrl
+);
+
 /**
  * @route   PATCH /files/:fileId
  * @desc    Update file tag
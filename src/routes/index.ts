@@ -9,6 +9,8 @@ import ragRoutes from './rag.routes';
 import memoryStandaloneRoutes from './memory-standalone.routes';
 import adminRoutes from './admin.routes';
 import onboardingRoutes from './onboarding.routes';
+import aiModelRoutes from './ai-model.routes';
+import { apiLimiter } from '../middlewares';
 
 const router = Router();
 
@@ -21,6 +23,9 @@ router.get('/health', (_req, res) => {
     });
 });
 
+// Default rate limit for everything below (auth and AI routes add stricter ones)
+router.use(apiLimiter);
+
 // Mount route modules
 router.use('/auth', authRoutes);
 router.use('/subjects', subjectRoutes);
@@ -32,6 +37,7 @@ router.use('/rag', ragRoutes);
 router.use('/memories', memoryStandaloneRoutes); // Standalone memory operations
 router.use('/admin', adminRoutes); // Admin routes (SUPERADMIN only)
 router.use('/onboarding', onboardingRoutes); // User onboarding/setup routes
+router.use('/models', aiModelRoutes); // Selectable chat models
 
 export default router;
 
@@ -1,12 +1,20 @@
 import { Router } from 'express';
-import { authenticate } from '../middlewares';
+import { authenticate, aiLimiter } from '../middlewares';
 import { validate } from '../middlewares';
 import {
     sendMessage,
     sendMessageStream,
     getMessages,
+    regenerateMessage,
+    editMessage,
+    switchBranch,
+    stopGeneration,
+    resumeStream,
     sendMessageSchema,
+    regenerateMessageSchema,
     conversationIdParamSchema,
+    messageIdParamSchema,
+    resumeStreamQuerySchema,
 } from '../controllers/message.controller';
 
 const router = Router();
@@ -19,7 +27,7 @@ router.use(authenticate);
 
 /**
  * GET /conversations/:conversationId/messages
- * Get all messages for a conversation
+ * Get the messages on the active branch of a conversation
  */
 router.get(
     '/:conversationId/messages',
@@ -33,6 +41,7 @@ router.get(
  */
 router.post(
     '/:conversationId/messages',
+    aiLimiter,
     validate(conversationIdParamSchema, 'params'),
     validate(sendMessageSchema),
     sendMessage
@@ -44,9 +53,65 @@ router.post(
  */
 router.post(
     '/:conversationId/messages/stream',
+    aiLimiter,
     validate(conversationIdParamSchema, 'params'),
     validate(sendMessageSchema),
     sendMessageStream
 );
 
+/**
+ * PATCH /conversations/:conversationId/messages/:messageId
+ * Edit a user message and resend it as a new branch
+ */
+router.patch(
+    '/:conversationId/messages/:messageId',
+    aiLimiter,
+    validate(messageIdParamSchema, 'params'),
+    validate(sendMessageSchema),
+    editMessage
+);
+
+/**
+ * POST /conversations/:conversationId/messages/:messageId/regenerate
+ * Generate another answer to the same question as a new branch
+ */
+router.post(
+    '/:conversationId/messages/:messageId/regenerate',
+    aiLimiter,
+    validate(messageIdParamSchema, 'params'),
+    validate(regenerateMessageSchema),
+    regenerateMessage
+);
+
+/**
+ * POST /conversations/:conversationId/messages/:messageId/activate
+ * Switch the active branch to the one containing this message
+ */
+router.post(
+    '/:conversationId/messages/:messageId/activate',
+    validate(messageIdParamSchema, 'params'),
+    switchBranch
+);
+
+/**
+ * GET /conversations/:conversationId/messages/:messageId/stream
+ * Reconnect to a streaming reply (replays events after Last-Event-ID)
+ */
+router.get(
+    '/:conversationId/messages/:messageId/stream',
+    validate(messageIdParamSchema, 'params'),
+    validate(resumeStreamQuerySchema, 'query'),
+    resumeStream
+);
+
+/**
+ * POST /conversations/:conversationId/messages/:messageId/stop
+ * Stop a streaming reply and keep the partial answer
+ */
+router.post(
+    '/:conversationId/messages/:messageId/stop',
+    validate(messageIdParamSchema, 'params'),
+    stopGeneration
+);
+
 export default router;
@@ -1,12 +1,13 @@
 import { Router } from 'express';
 import { ragController } from '../controllers/rag.controller';
-import { authenticate } from '../middlewares';
+import { authenticate, aiLimiter } from '../middlewares';
 import { asyncHandler } from '../utils';
 
 const router = Router();
 
-// All RAG routes are protected
+// All RAG routes are protected, and call the AI model
 router.use(authenticate);
+router.use(aiLimiter);
 
 // Context-aware query
 router.post('/query', asyncHandler(ragController.query));
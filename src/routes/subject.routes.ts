@@ -21,6 +21,7 @@ import {
 import {
     uploadFiles,
     getFilesBySubject,
+    streamProcessingProgress,
     listQuerySchema as fileListQuerySchema,
 } from '../controllers/file.controller';
 import { upload } from '../config/upload';
@@ -158,6 +159,17 @@ router.get(
     getFilesBySubject
 );
 
+/**
+ * @route   GET /subjects/:subjectId/files/progress
+ * @desc    Stream processing progress of the subject's files (SSE)
+ * @access  Private
+ */
+router.get(
+    '/:subjectId/files/progress',
+    validate(subjectIdParamSchema, 'params'),
+    streamProcessingProgress
+);
+
 // ===========================================
 // NESTED MEMORY ROUTES
 // ===========================================
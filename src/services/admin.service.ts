@@ -1,5 +1,6 @@
 import prisma from '../config/database';
 import { AppError } from '../utils';
+import { messageSourceSelect } from './message.service';
 
 /**
  * Admin Service - handles admin-only queries for user and conversation management
@@ -206,7 +207,16 @@ export class AdminService {
                     id: true,
                     content: true,
                     role: true,
+                    parentId: true,
+                    model: true,
+                    promptTokens: true,
+                    completionTokens: true,
+                    totalTokens: true,
                     createdAt: true,
+                    sources: {
+                        select: messageSourceSelect,
+                        orderBy: { rank: 'asc' },
+                    },
                 },
                 orderBy: { createdAt: 'asc' },
                 skip,
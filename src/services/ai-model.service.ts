@@ -0,0 +1,154 @@
+import prisma from '../config/database';
+import { config } from '../config';
+import { AppError } from '../utils';
+
+export interface CreateAiModelInput {
+    modelId: string;
+    label: string;
+    description?: string;
+    contextWindow?: number;
+    isActive?: boolean;
+}
+
+export interface UpdateAiModelInput {
+    label?: string;
+    description?: string | null;
+    contextWindow?: number | null;
+    isActive?: boolean;
+}
+
+/**
+ * AI model service - manages the chat model allowlist and resolves
+ * which model answers a given request.
+ *
+ * Resolution order: request override -> subject setting -> user default -> CHAT_MODEL.
+ */
+export class AiModelService {
+    /**
+     * List models users can pick from (the configured default is always included)
+     */
+    async listAvailable() {
+        const models = await prisma.aiModel.findMany({
+            where: { isActive: true },
+            select: { modelId: true, label: true, description: true },
+            orderBy: { label: 'asc' },
+        });
+
+        const defaultModel = models.find(m => m.modelId === config.chatModel);
+        return {
+            defaultModel: config.chatModel,
+            models: defaultModel
+                ? models
+                : [{ modelId: config.chatModel, label: config.chatModel, description: null }, ...models],
+        };
+    }
+
+    /**
+     * Check whether a model may be used
+     */
+    async isAllowed(modelId: string): Promise<boolean> {
+        if (modelId === config.chatModel) return true;
+
+        const model = await prisma.aiModel.findFirst({
+            where: { modelId, isActive: true },
+            select: { id: true },
+        });
+        return !!model;
+    }
+
+    /**
+     * Throw if a model is not in the allowlist
+     */
+    async assertAllowed(modelId: string): Promise<void> {
+        if (!(await this.isAllowed(modelId))) {
+            throw AppError.badRequest(`Model "${modelId}" is not available`, 'MODEL_NOT_ALLOWED');
+        }
+    }
+
+    /**
+     * Pick the chat model for a request.
+     * An explicit request model must be allowed; stored settings that have since
+     * been removed from the allowlist are skipped instead of failing the request.
+     */
+    async resolve(userId: string, subjectId: string, requestedModel?: string): Promise<string> {
+        if (requestedModel) {
+            await this.assertAllowed(requestedModel);
+            return requestedModel;
+        }
+
+        const [subject, user] = await Promise.all([
+            prisma.subject.findFirst({ where: { id: subjectId, userId }, select: { aiModel: true } }),
+            prisma.user.findUnique({ where: { id: userId }, select: { defaultAiModel: true } }),
+        ]);
+
+        for (const candidate of [subject?.aiModel, user?.defaultAiModel]) {
+            if (candidate && await this.isAllowed(candidate)) {
+                return candidate;
+            }
+        }
+
+        return config.chatModel;
+    }
+
+    /**
+     * Context window of a model in tokens (CONTEXT_WINDOW_TOKENS unless the allowlist entry overrides it)
+     */
+    async getContextWindow(modelId: string): Promise<number> {
+        const model = await prisma.aiModel.findUnique({
+            where: { modelId },
+            select: { contextWindow: true },
+        });
+        return model?.contextWindow ?? config.contextWindowTokens;
+    }
+
+    // ===========================================
+    // ADMIN MANAGEMENT
+    // ===========================================
+
+    /**
+     * List all allowlist entries, including inactive ones
+     */
+    async findAll() {
+        return prisma.aiModel.findMany({ orderBy: { label: 'asc' } });
+    }
+
+    /**
+     * Add a model to the allowlist
+     */
+    async create(input: CreateAiModelInput) {
+        const existing = await prisma.aiModel.findUnique({ where: { modelId: input.modelId } });
+        if (existing) {
+            throw AppError.conflict('Model already in allowlist', 'MODEL_EXISTS');
+        }
+
+        return prisma.aiModel.create({ data: input });
+    }
+
+    /**
+     * Update an allowlist entry
+     */
+    async update(id: string, input: UpdateAiModelInput) {
+        await this.findByIdOrThrow(id);
+        return prisma.aiModel.update({ where: { id }, data: input });
+    }
+
+    /**
+     * Remove a model from the allowlist.
+     * Subjects and users still pointing at it fall back to the next level on resolution.
+     */
+    async delete(id: string): Promise<void> {
+        await this.findByIdOrThrow(id);
+        await prisma.aiModel.delete({ where: { id } });
+    }
+
+    private async findByIdOrThrow(id: string) {
+        const model = await prisma.aiModel.findUnique({ where: { id } });
+        if (!model) {
+            throw AppError.notFound('Model not found', 'MODEL_NOT_FOUND');
+        }
+        return model;
+    }
+}
+
+// Export singleton instance
+export const aiModelService = new AiModelService();
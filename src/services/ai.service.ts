@@ -1,44 +1,25 @@
 /**
- * AI Service - OpenRouter Integration
- * Handles communication with OpenRouter API using Gemini model
+ * AI Service - Chat completions through the configured LLM provider
+ * Builds prompts and relays streamed responses to the client over SSE
  * Supports both regular and streaming chat completions
  */
 
-import { Response } from 'express';
-
-// OpenRouter API configuration
-const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
-const AI_MODEL = 'google/gemini-2.5-flash';
+import { config } from '../config';
+import { llmProvider, LLMUsage } from './llm-provider.service';
+import { tokenBudgetService, HistoryBudget } from './token-budget.service';
+import { aiModelService } from './ai-model.service';
+import { SseSink } from './generation-registry.service';
 
 interface ChatMessage {
     role: 'system' | 'user' | 'assistant';
     content: string;
 }
 
-interface OpenRouterResponse {
-    id: string;
-    choices: Array<{
-        message: {
-            role: string;
-            content: string;
-        };
-        finish_reason: string;
-    }>;
-    usage?: {
-        prompt_tokens: number;
-        completion_tokens: number;
-        total_tokens: number;
-    };
-}
-
-interface StreamChunk {
-    id: string;
-    choices: Array<{
-        delta: {
-            content?: string;
-        };
-        finish_reason: string | null;
-    }>;
+export interface ChatCompletion {
+    content: string;
+    model: string;
+    usage?: LLMUsage;
+    stopped?: boolean; // Streaming was aborted; content is partial
 }
 
 // Memory extraction response interface
@@ -267,9 +248,15 @@ ${context}
 
 **Usage Guidelines:**
 - Quote or reference this content directly when helpful
-- Cite which file/section information comes from
 - If a question relates to this content, use it as the authoritative source
-- If information isn't here, supplement with general knowledge (and note that)`;
+- If information isn't here, supplement with general knowledge (and note that)
+
+**Citation Markers (REQUIRED):**
+- Each source above is labelled with a marker like \`[^1]\`
+- Put the matching marker right after every sentence or step that uses that source, e.g. "The derivative is zero at an extremum [^2]."
+- Use several markers when several sources support a claim: \`[^1][^3]\`
+- Only use markers that appear above — never invent a marker number
+- Do not add markers to general-knowledge content`;
     } else {
         // First message / no materials behavior
         prompt += `
@@ -345,98 +332,60 @@ export const STUDY_PROMPTS = {
  * AI Service class for handling chat completions
  */
 export class AIService {
-    private apiKey: string;
-
-    constructor() {
-        const apiKey = process.env.OPENROUTER_API_KEY;
-        if (!apiKey) {
-            console.warn('Warning: OPENROUTER_API_KEY not set. AI features will not work.');
-        }
-        this.apiKey = apiKey || '';
-    }
-
-    /**
-     * Estimate token count (rough approximation: ~4 chars per token)
-     */
-    private estimateTokens(text: string): number {
-        return Math.ceil(text.length / 4);
-    }
-
     /**
      * Log context window usage for debugging
      */
-    private logContextUsage(messages: ChatMessage[]): void {
-        const totalContent = messages.map(m => m.content).join('');
-        const estimatedTokens = this.estimateTokens(totalContent);
-        const systemPromptTokens = this.estimateTokens(messages.find(m => m.role === 'system')?.content || '');
-
-        console.log(`\n📊 AI Context Window Usage:`);
-        console.log(`   - Messages: ${messages.length}`);
-        console.log(`   - System prompt: ~${systemPromptTokens} tokens`);
-        console.log(`   - Total context: ~${estimatedTokens} tokens`);
-        console.log(`   - Characters: ${totalContent.length.toLocaleString()}\n`);
+    private logContextUsage(budget: HistoryBudget<ChatMessage>, model: string): void {
+        console.log(`\n📊 AI Context Window Usage (${model}):`);
+        console.log(`   - Messages: ${budget.messages.length + 1}${budget.droppedMessages > 0 ? ` (${budget.droppedMessages} oldest dropped)` : ''}`);
+        console.log(`   - System prompt: ${budget.systemPromptTokens} tokens`);
+        console.log(`   - History: ${budget.historyTokens} tokens`);
+        console.log(`   - Total context: ${budget.totalTokens} / ${budget.budget} tokens\n`);
     }
 
     /**
-     * Build full messages array with system prompt
+     * Build full messages array with system prompt, trimming the oldest history to fit the model's context window.
+     * A `budget` already computed by the caller for this prompt and history is used as is.
      */
-    private buildMessages(messages: ChatMessage[], systemPrompt?: string): ChatMessage[] {
-        const fullMessages: ChatMessage[] = [];
-
-        fullMessages.push({
-            role: 'system',
-            content: systemPrompt || buildSystemPrompt(),
+    private async buildMessages(
+        messages: ChatMessage[],
+        systemPrompt: string | undefined,
+        model: string,
+        fitted?: HistoryBudget<ChatMessage>
+    ): Promise<ChatMessage[]> {
+        const prompt = systemPrompt || buildSystemPrompt();
+        const budget = fitted ?? tokenBudgetService.fitHistory(prompt, messages, {
+            model,
+            contextWindow: await aiModelService.getContextWindow(model),
         });
 
-        fullMessages.push(...messages);
-
         // Log context window usage
-        this.logContextUsage(fullMessages);
+        this.logContextUsage(budget, model);
 
-        return fullMessages;
+        return [
+            { role: 'system', content: prompt },
+            ...budget.messages.map(m => ({ role: m.role, content: m.content })),
+        ];
     }
 
     /**
-     * Send a chat completion request to OpenRouter (non-streaming)
+     * Send a chat completion request (non-streaming)
+     * @param model - Chat model to use (defaults to CHAT_MODEL)
      */
-    async chat(messages: ChatMessage[], systemPrompt?: string): Promise<string> {
-        if (!this.apiKey) {
-            throw new Error('OpenRouter API key not configured');
-        }
+    async chat(messages: ChatMessage[], systemPrompt?: string, model: string = config.chatModel): Promise<string> {
+        const completion = await this.complete(messages, systemPrompt, model);
+        return completion.content;
+    }
 
-        const fullMessages = this.buildMessages(messages, systemPrompt);
+    /**
+     * Send a chat completion request and return the content with provider token usage
+     * @param model - Chat model to use (defaults to CHAT_MODEL)
+     */
+    async complete(messages: ChatMessage[], systemPrompt?: string, model: string = config.chatModel): Promise<ChatCompletion> {
+        const fullMessages = await this.buildMessages(messages, systemPrompt, model);
 
         try {
-            const response = await fetch(OPENROUTER_API_URL, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.apiKey}`,
-                    'Content-Type': 'application/json',
-                    'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
-                    'X-Title': 'Lea4n Learning Platform',
-                },
-                body: JSON.stringify({
-                    model: AI_MODEL,
-                    messages: fullMessages,
-                    // No max_tokens limit - let model output as much as needed
-                    temperature: 0.7,
-                }),
-            });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({})) as { error?: { message?: string } };
-                throw new Error(
-                    `OpenRouter API error: ${response.status} - ${errorData.error?.message || response.statusText}`
-                );
-            }
-
-            const data = await response.json() as OpenRouterResponse;
-
-            if (!data.choices || data.choices.length === 0) {
-                throw new Error('No response from AI model');
-            }
-
-            return data.choices[0].message.content;
+            return await llmProvider.chat(fullMessages, { model });
         } catch (error) {
             if (error instanceof Error) {
                 throw error;
@@ -448,93 +397,56 @@ export class AIService {
     /**
      * Stream a chat completion response using SSE
      * @param messages - Array of chat messages
-     * @param res - Express response object for SSE
+     * @param sink - SSE destination (a buffered generation stream)
      * @param systemPrompt - Optional system prompt
-     * @returns Accumulated response content
+     * @param model - Chat model to use (defaults to CHAT_MODEL)
+     * @param signal - Aborts the upstream request; the partial content is returned with `stopped: true`
+     * @param budget - History already fitted to the context window (from tokenBudgetService.fitHistory), to skip doing it again
+     * @returns Accumulated response content and provider token usage
      */
     async chatStream(
         messages: ChatMessage[],
-        res: Response,
-        systemPrompt?: string
-    ): Promise<string> {
-        if (!this.apiKey) {
-            throw new Error('OpenRouter API key not configured');
-        }
-
-        const fullMessages = this.buildMessages(messages, systemPrompt);
+        sink: SseSink,
+        systemPrompt?: string,
+        model: string = config.chatModel,
+        signal?: AbortSignal,
+        budget?: HistoryBudget<ChatMessage>
+    ): Promise<ChatCompletion> {
+        const fullMessages = await this.buildMessages(messages, systemPrompt, model, budget);
 
         // NOTE: SSE headers should be set by the controller before calling this method
 
+        let accumulatedContent = '';
+        let usage: LLMUsage | undefined;
+
         try {
-            const response = await fetch(OPENROUTER_API_URL, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.apiKey}`,
-                    'Content-Type': 'application/json',
-                    'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
-                    'X-Title': 'Lea4n Learning Platform',
-                },
-                body: JSON.stringify({
-                    model: AI_MODEL,
-                    messages: fullMessages,
-                    // No max_tokens limit - let model output as much as needed
-                    temperature: 0.7,
-                    stream: true, // Enable streaming
-                }),
-            });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({})) as { error?: { message?: string } };
-                throw new Error(
-                    `OpenRouter API error: ${response.status} - ${errorData.error?.message || response.statusText}`
-                );
+            for await (const delta of llmProvider.chatStream(fullMessages, { model, signal })) {
+                if (delta.usage) {
+                    usage = delta.usage;
+                }
+                if (delta.content) {
+                    accumulatedContent += delta.content;
+                    // Send content chunk to client
+                    sink.send({ content: delta.content });
+                }
             }
 
-            if (!response.body) {
-                throw new Error('No response body');
+            if (signal?.aborted) {
+                return { content: accumulatedContent, model, usage, stopped: true };
             }
 
-            let accumulatedContent = '';
-            const reader = response.body.getReader();
-            const decoder = new TextDecoder();
-
-            while (true) {
-                const { done, value } = await reader.read();
-                if (done) break;
-
-                const chunk = decoder.decode(value, { stream: true });
-                const lines = chunk.split('\n');
-
-                for (const line of lines) {
-                    if (line.startsWith('data: ')) {
-                        const data = line.slice(6).trim();
-
-                        if (data === '[DONE]') {
-                            // Send completion event
-                            res.write('data: [DONE]\n\n');
-                            continue;
-                        }
-
-                        try {
-                            const parsed = JSON.parse(data) as StreamChunk;
-                            const content = parsed.choices[0]?.delta?.content;
-
-                            if (content) {
-                                accumulatedContent += content;
-                                // Send content chunk to client
-                                res.write(`data: ${JSON.stringify({ content })}\n\n`);
-                            }
-                        } catch {
-                            // Skip invalid JSON
-                        }
-                    }
-                }
-            }
+            // Send completion event
+            sink.send('[DONE]');
 
-            return accumulatedContent;
+            return { content: accumulatedContent, model, usage };
         } catch (error) {
+            // Aborted on purpose (stop request or client gone): keep what was generated so far
+            if (signal?.aborted) {
+                return { content: accumulatedContent, model, usage, stopped: true };
+            }
+
             // Send error to client
-            res.write(`data: ${JSON.stringify({ error: error instanceof Error ? error.message : 'Stream failed' })}\n\n`);
+            sink.send({ error: error instanceof Error ? error.message : 'Stream failed' });
             throw error;
         }
     }
@@ -559,7 +471,7 @@ export class AIService {
      * Generate a system prompt with injected context
      */
     buildRAGPrompt(basePrompt: string, context: string): string {
-        return `${basePrompt}\n\nSTUDY MATERIALS CONTEXT:\n${context}\n\nINSTRUCTION: Answer using the context above. If documents are cited (e.g., Source 1), mention them in your response.`;
+        return `${basePrompt}\n\nSTUDY MATERIALS CONTEXT:\n${context}\n\nINSTRUCTION: Answer using the context above. Cite sources with their markers (e.g., [^1]) right after the statements they support.`;
     }
 
     /**
@@ -576,6 +488,36 @@ ${context}`;
         return await this.chat([{ role: 'user', content: 'Please generate practice questions for me.' }], prompt);
     }
 
+    /**
+     * Condense older conversation turns into a rolling summary
+     * @param previousSummary - Existing summary to extend, if any
+     * @param turns - Messages to fold into the summary, oldest first
+     */
+    async summarizeConversation(previousSummary: string | null, turns: ChatMessage[]): Promise<string> {
+        const transcript = turns
+            .map(t => `${t.role === 'user' ? 'STUDENT' : 'TUTOR'}: ${t.content}`)
+            .join('\n\n');
+
+        const summaryPrompt = `${previousSummary ? `PREVIOUS SUMMARY:\n${previousSummary}\n\n` : ''}NEW CONVERSATION TURNS:
+${transcript}
+
+Write an updated summary of the whole conversation so far${previousSummary ? ' (previous summary + new turns)' : ''}.
+
+Rules:
+- Keep: questions asked, key explanations and results, formulas, definitions, the student's difficulties and what was agreed
+- Drop: greetings, filler, repeated content
+- Keep file names and page references when they matter
+- Write in the same language as the conversation
+- Maximum ~400 words, plain text or short bullet points`;
+
+        const summary = await this.chat(
+            [{ role: 'user', content: summaryPrompt }],
+            'You summarize tutoring conversations so they can be continued later. Return ONLY the summary.'
+        );
+
+        return summary.trim();
+    }
+
     /**
      * Extract memories from a conversation turn
      * Returns structured memory items to be saved
@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import prisma from '../config/database';
@@ -5,6 +6,7 @@ import { config } from '../config';
 import { AppError } from '../utils';
 import { UserRole } from '@prisma/client';
 import { emailService } from './email.service';
+import { aiModelService } from './ai-model.service';
 
 export interface RegisterInput {
     email: string;
@@ -35,11 +37,17 @@ export interface VerifyEmailInput {
     otp: string;
 }
 
+export interface ResetPasswordInput {
+    token: string;
+    newPassword: string;
+}
+
 /**
  * Authentication service handling user registration, login, and token management.
  */
 export class AuthService {
     private readonly OTP_EXPIRY_MINUTES = 10;
+    private readonly RESET_TOKEN_EXPIRY_MINUTES = 30;
 
     /**
      * Register a new user (unverified - requires email verification)
@@ -71,7 +79,7 @@ export class AuthService {
                 // Send verification email
                 await emailService.sendVerificationEmail(email, otp, name);
 
-                const token = this.generateToken(existingUser.id, email, existingUser.role);
+                const token = this.generateToken(existingUser.id, email, existingUser.role, existingUser.tokenVersion);
                 return {
                     user: {
                         id: existingUser.id,
@@ -121,7 +129,7 @@ export class AuthService {
         await emailService.sendVerificationEmail(email, otp, name);
 
         // Generate token with role
-        const token = this.generateToken(user.id, user.email, user.role);
+        const token = this.generateToken(user.id, user.email, user.role, 0);
 
         return { user, token };
     }
@@ -175,7 +183,7 @@ export class AuthService {
             },
         });
 
-        const token = this.generateToken(updatedUser.id, updatedUser.email, updatedUser.role);
+        const token = this.generateToken(updatedUser.id, updatedUser.email, updatedUser.role, user.tokenVersion);
 
         return { user: updatedUser, token };
     }
@@ -256,7 +264,7 @@ export class AuthService {
         }
 
         // Generate token with role
-        const token = this.generateToken(user.id, user.email, user.role);
+        const token = this.generateToken(user.id, user.email, user.role, user.tokenVersion);
 
         return {
             user: {
@@ -283,8 +291,10 @@ export class AuthService {
                 email: true,
                 name: true,
                 role: true,
+                plan: true,
                 isEmailVerified: true,
                 setupCompleted: true,
+                defaultAiModel: true,
                 createdAt: true,
                 updatedAt: true,
                 _count: {
@@ -306,7 +316,11 @@ export class AuthService {
     /**
      * Update user profile
      */
-    async updateProfile(userId: string, data: { name?: string }) {
+    async updateProfile(userId: string, data: { name?: string; defaultAiModel?: string | null }) {
+        if (data.defaultAiModel) {
+            await aiModelService.assertAllowed(data.defaultAiModel);
+        }
+
         const user = await prisma.user.update({
             where: { id: userId },
             data,
@@ -314,6 +328,7 @@ export class AuthService {
                 id: true,
                 email: true,
                 name: true,
+                defaultAiModel: true,
                 createdAt: true,
                 updatedAt: true,
             },
@@ -359,6 +374,76 @@ export class AuthService {
         });
     }
 
+    /**
+     * Email a password reset link. Unknown emails get the same response,
+     * so the endpoint can't be used to find out who has an account.
+     */
+    async forgotPassword(email: string): Promise<{ message: string }> {
+        const message = 'If an account exists for this email, a password reset link has been sent';
+
+        const user = await prisma.user.findUnique({
+            where: { email: email.toLowerCase() },
+        });
+
+        if (!user) {
+            return { message };
+        }
+
+        // Only the hash is stored; a new request replaces any earlier link
+        const token = crypto.randomBytes(32).toString('base64url');
+        await prisma.user.update({
+            where: { id: user.id },
+            data: {
+                passwordResetTokenHash: this.hashResetToken(token),
+                passwordResetExpiresAt: new Date(Date.now() + this.RESET_TOKEN_EXPIRY_MINUTES * 60 * 1000),
+            },
+        });
+
+        const resetUrl = `${config.frontendUrl}/reset-password?token=${token}`;
+
+        // Not awaited: a slow or failing mail server must not make known emails look different.
+        // Failures are logged by the email service.
+        emailService
+            .sendPasswordResetEmail(user.email, resetUrl, this.RESET_TOKEN_EXPIRY_MINUTES, user.name || undefined)
+            .catch(() => undefined);
+
+        return { message };
+    }
+
+    /**
+     * Set a new password with an emailed reset token.
+     * The token works once, and every existing session is signed out.
+     */
+    async resetPassword(input: ResetPasswordInput): Promise<void> {
+        const tokenHash = this.hashResetToken(input.token);
+
+        const user = await prisma.user.findUnique({
+            where: { passwordResetTokenHash: tokenHash },
+            select: { id: true, passwordResetExpiresAt: true },
+        });
+
+        if (!user || !user.passwordResetExpiresAt || new Date() > user.passwordResetExpiresAt) {
+            throw AppError.badRequest('Invalid or expired reset link. Please request a new one.', 'INVALID_RESET_TOKEN');
+        }
+
+        const hashedPassword = await bcrypt.hash(input.newPassword, config.bcryptSaltRounds);
+
+        // Conditional on the token hash, so two concurrent requests can't both use the token
+        const { count } = await prisma.user.updateMany({
+            where: { id: user.id, passwordResetTokenHash: tokenHash },
+            data: {
+                password: hashedPassword,
+                passwordResetTokenHash: null,
+                passwordResetExpiresAt: null,
+                tokenVersion: { increment: 1 },
+            },
+        });
+
+        if (count === 0) {
+            throw AppError.badRequest('Invalid or expired reset link. Please request a new one.', 'INVALID_RESET_TOKEN');
+        }
+    }
+
     /**
      * Login or register user with GitHub OAuth
      * GitHub users are automatically verified (no OTP required)
@@ -399,7 +484,7 @@ export class AuthService {
         }
 
         // Generate token
-        const token = this.generateToken(user.id, user.email, user.role);
+        const token = this.generateToken(user.id, user.email, user.role, user.tokenVersion);
 
         return {
             user: {
@@ -416,15 +501,19 @@ export class AuthService {
     }
 
     /**
-     * Generate JWT token with role
+     * Generate JWT token with role. `tokenVersion` must match the user's for the token to be accepted.
      */
-    private generateToken(userId: string, email: string, role: UserRole): string {
+    private generateToken(userId: string, email: string, role: UserRole, tokenVersion: number): string {
         return jwt.sign(
-            { userId, email, role },
+            { userId, email, role, tokenVersion },
             config.jwtSecret,
             { expiresIn: config.jwtExpiresIn as jwt.SignOptions['expiresIn'] }
         );
     }
+
+    private hashResetToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
 }
 
 // Export singleton instance
@@ -3,15 +3,41 @@ import { encoding_for_model, TiktokenModel } from 'tiktoken';
 export interface Chunk {
     content: string;
     index: number;
+    startPage?: number;
+    endPage?: number;
     metadata?: Record<string, any>;
 }
 
+export interface PageText {
+    pageNumber: number;
+    content: string;
+}
+
+interface Paragraph {
+    text: string;
+    page?: number;
+    section: string[]; // Headings enclosing the paragraph, outermost first
+    isHeading: boolean;
+}
+
+interface Heading {
+    level: number;
+    title: string;
+}
+
 export interface ChunkingOptions {
     chunkSize?: number;
     chunkOverlap?: number;
     model?: string;
 }
 
+// Markdown ATX heading; extractors emit these for Word styles, PDF font sizes, slide titles and HTML
+const HEADING_LINE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const CODE_FENCE = /^\s*(```|~~~)/;
+
+// Separator used when a chunk's section path is stored or displayed
+export const SECTION_SEPARATOR = ' > ';
+
 /**
  * Service for splitting text into manageable chunks for embeddings
  */
@@ -31,7 +57,8 @@ export class ChunkingService {
         } = options;
 
         const encoding = encoding_for_model(model as TiktokenModel);
-        const tokens = encoding.encode(text);
+        // Special-token text in a document ("<|endoftext|>"...) is plain text, not a control token
+        const tokens = encoding.encode(text, [], []);
         const chunks: Chunk[] = [];
 
         let start = 0;
@@ -63,54 +90,139 @@ export class ChunkingService {
     }
 
     /**
-     * Advanced semantic chunking that tries to break at paragraph/sentence boundaries
+     * Advanced semantic chunking that tries to break at paragraph/sentence boundaries.
+     * Chunks don't cross section boundaries and record their section path.
      */
     semanticChunking(text: string, options: ChunkingOptions = {}): Chunk[] {
+        const paragraphs = this.splitParagraphs(text, []);
+        return this.groupParagraphs(paragraphs, options);
+    }
+
+    /**
+     * Semantic chunking over per-page text. Each chunk records the page range it covers.
+     * The heading hierarchy carries over from one page to the next.
+     */
+    semanticChunkingByPage(pages: PageText[], options: ChunkingOptions = {}): Chunk[] {
+        const headings: Heading[] = [];
+        const paragraphs = pages.flatMap(page => this.splitParagraphs(page.content, headings, page.pageNumber));
+        return this.groupParagraphs(paragraphs, options);
+    }
+
+    /**
+     * Split text into paragraphs on blank lines and heading lines, tagging each with its section.
+     * `headings` is the open heading stack; it is updated in place so callers can continue it.
+     */
+    private splitParagraphs(text: string, headings: Heading[], page?: number): Paragraph[] {
+        const paragraphs: Paragraph[] = [];
+        let lines: string[] = [];
+        let inCodeBlock = false;
+
+        const section = () => headings.map(h => h.title);
+        const flush = () => {
+            const para = lines.join('\n');
+            if (para.trim().length > 0) {
+                paragraphs.push({ text: para, page, section: section(), isHeading: false });
+            }
+            lines = [];
+        };
+
+        for (const line of text.split('\n')) {
+            if (CODE_FENCE.test(line)) {
+                inCodeBlock = !inCodeBlock;
+            }
+
+            const heading = inCodeBlock ? null : HEADING_LINE.exec(line);
+            if (heading) {
+                flush();
+                const level = heading[1].length;
+                while (headings.length > 0 && headings[headings.length - 1].level >= level) {
+                    headings.pop();
+                }
+                headings.push({ level, title: heading[2] });
+                paragraphs.push({ text: line.trim(), page, section: section(), isHeading: true });
+            } else if (!inCodeBlock && line.trim().length === 0) {
+                flush();
+            } else {
+                lines.push(line);
+            }
+        }
+        flush();
+
+        return paragraphs;
+    }
+
+    /**
+     * Pack paragraphs into chunks of roughly `chunkSize` tokens, tracking page boundaries.
+     * A new section starts a new chunk, unless the chunk so far only holds headings
+     * (e.g. a chapter title directly followed by its first subsection).
+     */
+    private groupParagraphs(paragraphs: Paragraph[], options: ChunkingOptions): Chunk[] {
         const {
             chunkSize = this.defaultChunkSize
         } = options;
 
         // For now, using a simpler paragraph-aware split as a first pass
         // then refining with the token-based splitter
-        const paragraphs = text.split(/\n\s*\n/);
         const chunks: Chunk[] = [];
         let currentChunk = '';
-        let index = 0;
+        let currentSection: string[] = [];
+        let hasBody = false;
+        let startPage: number | undefined;
+        let endPage: number | undefined;
+
+        const pushChunk = () => {
+            if (!currentChunk) return;
+            chunks.push({
+                content: currentChunk,
+                index: chunks.length,
+                startPage,
+                endPage,
+                metadata: {
+                    type: 'semantic',
+                    ...(currentSection.length > 0 ? { sectionPath: currentSection.join(SECTION_SEPARATOR) } : {})
+                }
+            });
+        };
 
         for (const para of paragraphs) {
-            if ((currentChunk + para).length < chunkSize * 4) { // Rough character estimate
-                currentChunk += (currentChunk ? '\n\n' : '') + para;
+            const sameSection = para.section.join(SECTION_SEPARATOR) === currentSection.join(SECTION_SEPARATOR);
+            const fits = (currentChunk + para.text).length < chunkSize * 4; // Rough character estimate
+
+            if (currentChunk && fits && (sameSection || !hasBody)) {
+                currentChunk += '\n\n' + para.text;
+                startPage = startPage ?? para.page;
             } else {
-                if (currentChunk) {
-                    chunks.push({
-                        content: currentChunk,
-                        index: index++,
-                        metadata: { type: 'semantic' }
-                    });
-                }
-                currentChunk = para;
+                pushChunk();
+                currentChunk = para.text;
+                startPage = para.page;
+                hasBody = false;
             }
+            currentSection = para.section;
+            hasBody = hasBody || !para.isHeading;
+            endPage = para.page ?? endPage;
         }
 
-        if (currentChunk) {
-            chunks.push({
-                content: currentChunk,
-                index: index++,
-                metadata: { type: 'semantic' }
-            });
-        }
+        pushChunk();
 
-        // If chunks are still too large, further sub-chunk them
-        return chunks.flatMap(c => {
-            const encoding = encoding_for_model(this.defaultModel);
-            const tokens = encoding.encode(c.content);
-            encoding.free();
+        // If chunks are still too large, further sub-chunk them (sub-chunks keep the parent's page range)
+        const encoding = encoding_for_model(this.defaultModel);
+        const sized = chunks.flatMap(c => {
+            const tokens = encoding.encode(c.content, [], []);
 
             if (tokens.length > chunkSize) {
-                return this.chunkText(c.content, options);
+                return this.chunkText(c.content, options).map(sub => ({
+                    ...sub,
+                    startPage: c.startPage,
+                    endPage: c.endPage,
+                    metadata: { ...c.metadata, ...sub.metadata }
+                }));
             }
             return [c];
         });
+        encoding.free();
+
+        // Re-number so indexes stay unique after sub-chunking
+        return sized.map((chunk, index) => ({ ...chunk, index }));
     }
 }
 
@@ -0,0 +1,114 @@
+import prisma from '../config/database';
+import { config } from '../config';
+import { aiService } from './ai.service';
+import { conversationService } from './conversation.service';
+import { tokenBudgetService } from './token-budget.service';
+
+export interface HistoryMessage {
+    id: string;
+    role: 'user' | 'assistant' | 'system';
+    content: string;
+}
+
+export interface SummarizedHistory {
+    summary: string | null;
+    messages: HistoryMessage[];
+}
+
+/**
+ * Conversation summary service - keeps a rolling summary of older turns so
+ * long conversations send summary + recent messages instead of the full history.
+ */
+export class ConversationSummaryService {
+    // Conversations with a summary update in flight (avoids duplicate LLM calls)
+    private refreshing = new Set<string>();
+
+    /**
+     * Get the stored summary of a conversation (with ownership verification)
+     */
+    async getSummary(userId: string, conversationId: string) {
+        await conversationService.verifyOwnership(userId, conversationId);
+
+        const conversation = await prisma.conversation.findUnique({
+            where: { id: conversationId },
+            select: {
+                summary: true,
+                summaryThroughMessageId: true,
+                summaryUpdatedAt: true,
+            },
+        });
+
+        return {
+            summary: conversation?.summary ?? null,
+            summarizedThroughMessageId: conversation?.summaryThroughMessageId ?? null,
+            updatedAt: conversation?.summaryUpdatedAt ?? null,
+        };
+    }
+
+    /**
+     * Replace the summarized part of a history with the stored summary.
+     * If the summary's last message is not in this history (e.g. it was deleted), the summary is ignored.
+     */
+    async applySummary(conversationId: string, history: HistoryMessage[]): Promise<SummarizedHistory> {
+        const conversation = await prisma.conversation.findUnique({
+            where: { id: conversationId },
+            select: { summary: true, summaryThroughMessageId: true },
+        });
+
+        if (!conversation?.summary || !conversation.summaryThroughMessageId) {
+            return { summary: null, messages: history };
+        }
+
+        const index = history.findIndex(m => m.id === conversation.summaryThroughMessageId);
+        if (index === -1) {
+            return { summary: null, messages: history };
+        }
+
+        return { summary: conversation.summary, messages: history.slice(index + 1) };
+    }
+
+    /**
+     * Append the summary to a system prompt
+     */
+    formatForPrompt(systemPrompt: string, summary: string | null): string {
+        if (!summary) return systemPrompt;
+        return `${systemPrompt}\n\n## Summary of Earlier Conversation\nOlder messages were condensed into this summary. Treat it as what was said before the messages below.\n${summary}`;
+    }
+
+    /**
+     * Fold older turns into the summary once unsummarized history exceeds the threshold.
+     * The most recent messages are always kept verbatim.
+     */
+    async refresh(conversationId: string, history: HistoryMessage[]): Promise<void> {
+        if (this.refreshing.has(conversationId)) return;
+        this.refreshing.add(conversationId);
+
+        try {
+            const { summary, messages } = await this.applySummary(conversationId, history);
+            if (messages.length <= config.summaryKeepRecentMessages) return;
+
+            const tokens = tokenBudgetService.countMessages(messages);
+            if (tokens < config.summaryTriggerTokens) return;
+
+            const toCondense = messages.slice(0, messages.length - config.summaryKeepRecentMessages);
+            const updated = await aiService.summarizeConversation(summary, toCondense);
+            if (!updated) return;
+
+            await prisma.conversation.update({
+                where: { id: conversationId },
+                data: {
+                    summary: updated,
+                    summaryThroughMessageId: toCondense[toCondense.length - 1].id,
+                    summaryUpdatedAt: new Date(),
+                },
+            });
+
+            console.log(`Summary: Condensed ${toCondense.length} message(s) (~${tokens} tokens pending) for conversation ${conversationId}`);
+        } finally {
+            this.refreshing.delete(conversationId);
+        }
+    }
+}
+
+// Export singleton instance
+export const conversationSummaryService = new ConversationSummaryService();
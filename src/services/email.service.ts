@@ -2,7 +2,7 @@ import nodemailer from 'nodemailer';
 import { config } from '../config';
 
 /**
- * Email service for sending OTP verification emails
+ * Email service for sending OTP verification and password reset emails
  */
 export class EmailService {
     private transporter: nodemailer.Transporter;
@@ -46,6 +46,26 @@ export class EmailService {
         }
     }
 
+    /**
+     * Send password reset link email
+     */
+    async sendPasswordResetEmail(email: string, resetUrl: string, expiresInMinutes: number, name?: string): Promise<void> {
+        const mailOptions = {
+            from: `"Lea4n" <${config.smtpFrom}>`,
+            to: email,
+            subject: 'Reset your password - Lea4n',
+            html: this.getPasswordResetEmailTemplate(resetUrl, expiresInMinutes, name),
+        };
+
+        try {
+            await this.transporter.sendMail(mailOptions);
+            console.log(`Password reset email sent to ${email}`);
+        } catch (error) {
+            console.error('Failed to send password reset email:', error);
+            throw new Error('Failed to send password reset email');
+        }
+    }
+
     /**
      * Get styled HTML email template for OTP verification
      */
@@ -114,6 +134,80 @@ export class EmailService {
         </tr>
     </table>
 </body>
+</html>
+        `.trim();
+    }
+
+    /**
+     * Get styled HTML email template for password reset
+     */
+    private getPasswordResetEmailTemplate(resetUrl: string, expiresInMinutes: number, name?: string): string {
+        const greeting = name ? `Hi ${name}` : 'Hi there';
+
+        return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Reset Your Password</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; background-color: #0a0a0a;">
+    <table role="presentation" style="width: 100%; border-collapse: collapse;">
+        <tr>
+            <td align="center" style="padding: 40px 20px;">
+                <table role="presentation" style="max-width: 480px; width: 100%; border-collapse: collapse;">
+                    <!-- Logo -->
+                    <tr>
+                        <td align="center" style="padding-bottom: 32px;">
+                            <h1 style="margin: 0; font-size: 28px; font-weight: 700; color: #ffffff;">
+                                <span style="background: linear-gradient(135deg, #6366f1, #8b5cf6); -webkit-background-clip: text; -webkit-text-fill-color: transparent; background-clip: text;">Lea4n</span>
+                            </h1>
+                        </td>
+                    </tr>
+                    
+                    <!-- Main Card -->
+                    <tr>
+                        <td style="background: linear-gradient(145deg, rgba(30, 30, 40, 0.95), rgba(20, 20, 30, 0.98)); border-radius: 16px; padding: 40px; border: 1px solid rgba(99, 102, 241, 0.2); box-shadow: 0 25px 50px -12px rgba(0, 0, 0, 0.5);">
+                            <h2 style="margin: 0 0 16px 0; font-size: 24px; font-weight: 600; color: #ffffff;">
+                                Reset Your Password
+                            </h2>
+                            <p style="margin: 0 0 24px 0; font-size: 16px; color: #a1a1aa; line-height: 1.6;">
+                                ${greeting}! We received a request to reset the password of your Lea4n account. Click the button below to choose a new one.
+                            </p>
+                            
+                            <!-- Reset Button -->
+                            <div style="text-align: center; margin-bottom: 24px;">
+                                <a href="${resetUrl}" style="display: inline-block; background: linear-gradient(135deg, #6366f1, #8b5cf6); border-radius: 12px; padding: 14px 32px; font-size: 16px; font-weight: 600; color: #ffffff; text-decoration: none;">
+                                    Reset Password
+                                </a>
+                            </div>
+                            
+                            <p style="margin: 0 0 24px 0; font-size: 12px; color: #71717a; word-break: break-all;">
+                                Or copy this link into your browser: ${resetUrl}
+                            </p>
+                            <p style="margin: 0 0 8px 0; font-size: 14px; color: #71717a;">
+                                This link will expire in <strong style="color: #ffffff;">${expiresInMinutes} minutes</strong> and can only be used once. Resetting your password signs you out on every device.
+                            </p>
+                            <p style="margin: 0; font-size: 14px; color: #71717a;">
+                                If you didn't request a password reset, you can safely ignore this email.
+                            </p>
+                        </td>
+                    </tr>
+                    
+                    <!-- Footer -->
+                    <tr>
+                        <td align="center" style="padding-top: 32px;">
+                            <p style="margin: 0; font-size: 12px; color: #52525b;">
+                                © ${new Date().getFullYear()} Lea4n. All rights reserved.
+                            </p>
+                        </td>
+                    </tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
 </html>
         `.trim();
     }
@@ -0,0 +1,208 @@
+import prisma from '../config/database';
+import { AppError, encodeVector } from '../utils';
+import { embeddingService } from './embedding.service';
+import { vectorStore } from './vector-store.service';
+import { jobQueueService } from './job-queue.service';
+import { EmbeddingMigrationStatus, JobType } from '@prisma/client';
+
+// Chunks embedded per provider request
+const BATCH_SIZE = 50;
+
+/**
+ * Embedding migration service - re-embeds every chunk with a new embedding model.
+ *
+ * New vectors are written next to the old ones (one row per chunk and model), so
+ * retrieval keeps working on the old model while the migration runs. Progress is
+ * derived from which chunks still lack a vector for the target model, so a job
+ * interrupted by a restart or a failure resumes where it stopped. Once every chunk
+ * is covered, the target becomes the active model, chunks written meanwhile by file
+ * processing are embedded in a final pass, the vector indexes are rebuilt and the
+ * old vectors are deleted.
+ */
+export class EmbeddingMigrationService {
+    /**
+     * Active model and the latest migration with its progress
+     */
+    async getStatus() {
+        const [activeModel, migration] = await Promise.all([
+            embeddingService.getActiveModel(),
+            prisma.embeddingMigration.findFirst({ orderBy: { startedAt: 'desc' } }),
+        ]);
+
+        return {
+            activeModel,
+            migration: migration
+                ? {
+                    ...migration,
+                    percent: migration.totalChunks > 0
+                        ? Math.min(100, Math.floor((migration.processedChunks / migration.totalChunks) * 100))
+                        : 100,
+                }
+                : null,
+        };
+    }
+
+    /**
+     * Start re-embedding all chunks with `toModel`.
+     * Starting again after a failed migration to the same model skips chunks already done.
+     */
+    async start(toModel: string) {
+        const running = await prisma.embeddingMigration.findFirst({
+            where: { status: EmbeddingMigrationStatus.RUNNING },
+        });
+        if (running) {
+            throw AppError.conflict(`A migration to ${running.toModel} is already running`, 'MIGRATION_IN_PROGRESS');
+        }
+
+        const fromModel = await embeddingService.getActiveModel();
+        if (toModel === fromModel) {
+            throw AppError.badRequest(`${toModel} is already the active embedding model`, 'MODEL_ALREADY_ACTIVE');
+        }
+
+        // Fail fast on a model the provider doesn't know, instead of after the first job attempts
+        try {
+            await embeddingService.generateBatch(['embedding model check'], toModel);
+        } catch (error) {
+            throw AppError.badRequest(
+                `Embedding model ${toModel} is not usable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+                'EMBEDDING_MODEL_UNAVAILABLE'
+            );
+        }
+
+        const [totalChunks, processedChunks] = await Promise.all([
+            prisma.fileChunk.count(),
+            prisma.fileChunk.count({ where: { embeddings: { some: { model: toModel } } } }),
+        ]);
+
+        const migration = await prisma.embeddingMigration.create({
+            data: { fromModel, toModel, totalChunks, processedChunks },
+        });
+        await jobQueueService.enqueue(JobType.REEMBED_CHUNKS, { payload: { migrationId: migration.id } });
+
+        console.log(`EmbeddingMigration: Started ${fromModel} -> ${toModel} (${processedChunks}/${totalChunks} chunks already embedded)`);
+        return migration;
+    }
+
+    /**
+     * Job body: embed remaining chunks in batches, then cut over.
+     * A retry after a failure past the switch (COMPLETED, still the active model) finishes the cutover.
+     */
+    async run(migrationId: string): Promise<void> {
+        const migration = await prisma.embeddingMigration.findUnique({ where: { id: migrationId } });
+        if (!migration) return;
+
+        const { toModel } = migration;
+        if (migration.status === EmbeddingMigrationStatus.RUNNING) {
+            await this.embedMissing(migrationId, toModel);
+            await this.switchModel(migrationId, toModel);
+        } else if (
+            migration.status !== EmbeddingMigrationStatus.COMPLETED ||
+            await embeddingService.getActiveModel({ fresh: true }) !== toModel
+        ) {
+            return;
+        }
+
+        await this.finishCutOver(migrationId, toModel);
+    }
+
+    /**
+     * Embed every chunk that lacks a vector for `toModel`, recording progress after each batch
+     */
+    private async embedMissing(migrationId: string, toModel: string): Promise<void> {
+        while (true) {
+            // Chunks uploaded meanwhile are picked up too, since the query looks at what is missing
+            const chunks = await prisma.fileChunk.findMany({
+                where: { embeddings: { none: { model: toModel } } },
+                select: { id: true, content: true },
+                orderBy: { id: 'asc' },
+                take: BATCH_SIZE,
+            });
+            if (chunks.length === 0) {
+                await this.recordProgress(migrationId, toModel);
+                break;
+            }
+
+            const vectors = await embeddingService.generateBatch(chunks.map(c => c.content), toModel);
+
+            // skipDuplicates: a chunk embedded by an interrupted attempt is not an error
+            await prisma.fileEmbedding.createMany({
+                data: chunks.map((chunk, i) => ({
+                    chunkId: chunk.id,
+                    vectorData: encodeVector(vectors[i]),
+                    dimensions: vectors[i].length,
+                    model: toModel,
+                })),
+                skipDuplicates: true,
+            });
+
+            const { processedChunks, totalChunks } = await this.recordProgress(migrationId, toModel);
+            console.log(`EmbeddingMigration: ${processedChunks}/${totalChunks} chunks embedded with ${toModel}`);
+        }
+    }
+
+    /**
+     * Store progress as counted from the database (createMany may have skipped rows already there)
+     */
+    private async recordProgress(migrationId: string, toModel: string) {
+        const [totalChunks, processedChunks] = await Promise.all([
+            prisma.fileChunk.count(),
+            prisma.fileChunk.count({ where: { embeddings: { some: { model: toModel } } } }),
+        ]);
+        await prisma.embeddingMigration.update({
+            where: { id: migrationId },
+            data: { processedChunks, totalChunks, lastError: null },
+        });
+        return { processedChunks, totalChunks };
+    }
+
+    /**
+     * Record a failed attempt; the migration is FAILED once the job runs out of retries,
+     * unless it already switched the active model
+     */
+    async recordFailure(migrationId: string, error: Error, willRetry: boolean): Promise<void> {
+        await prisma.embeddingMigration.update({
+            where: { id: migrationId },
+            data: { lastError: error.message },
+        });
+        if (!willRetry) {
+            await prisma.embeddingMigration.updateMany({
+                where: { id: migrationId, status: EmbeddingMigrationStatus.RUNNING },
+                data: { status: EmbeddingMigrationStatus.FAILED },
+            });
+        }
+    }
+
+    /**
+     * Make the target model active. Other instances notice within the active model cache TTL.
+     */
+    private async switchModel(migrationId: string, toModel: string): Promise<void> {
+        await prisma.embeddingMigration.update({
+            where: { id: migrationId },
+            data: { status: EmbeddingMigrationStatus.COMPLETED, completedAt: new Date() },
+        });
+        embeddingService.setActiveModel(toModel);
+    }
+
+    /**
+     * Rebuild the vector indexes from the target model's vectors and drop the old ones.
+     * File processing that started before the switch may still have written chunks with the old model
+     * only; they are embedded first. Files still embedding check the active model once done
+     * (see FileProcessorService), so nothing written after this pass is left without a vector.
+     */
+    private async finishCutOver(migrationId: string, toModel: string): Promise<void> {
+        await this.embedMissing(migrationId, toModel);
+        await vectorStore.reload();
+
+        const removed = await prisma.fileEmbedding.deleteMany({ where: { model: { not: toModel } } });
+        console.log(`EmbeddingMigration: Cut over to ${toModel}, removed ${removed.count} old vector(s)`);
+    }
+}
+
+// Export singleton instance
+export const embeddingMigrationService = new EmbeddingMigrationService();
+
+jobQueueService.register(JobType.REEMBED_CHUNKS, {
+    run: job => embeddingMigrationService.run(JSON.parse(job.payload!).migrationId),
+    onFailure: (job, error, willRetry) =>
+        embeddingMigrationService.recordFailure(JSON.parse(job.payload!).migrationId, error, willRetry),
+});
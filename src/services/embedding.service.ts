@@ -1,18 +1,47 @@
+import prisma from '../config/database';
 import { AppError } from '../utils';
+import { config } from '../config';
+import { llmProvider } from './llm-provider.service';
+
+const QUOTA_ERROR_PATTERN = /API error: (402|429)\b|quota|rate limit|insufficient credits/i;
+
+// How long the active model is cached; bounds how late an instance notices a cutover made by another one
+const ACTIVE_MODEL_TTL_MS = 30 * 1000;
 
 /**
  * Service for generating vector embeddings
  */
 export class EmbeddingService {
-    private apiKey: string;
-    private apiUrl = 'https://openrouter.ai/api/v1/embeddings';
-    private model = 'openai/text-embedding-3-small'; // Standard efficient model
+    private activeModel: { model: Promise<string>; expiresAt: number } | null = null;
+
+    /**
+     * Active embedding model: the target of the last completed embedding migration,
+     * or EMBEDDING_MODEL if there never was one. Only vectors from this model are searched.
+     * Cached briefly; `fresh` reads it from the database.
+     */
+    getActiveModel(options: { fresh?: boolean } = {}): Promise<string> {
+        if (!this.activeModel || options.fresh || this.activeModel.expiresAt <= Date.now()) {
+            const model = prisma.embeddingMigration.findFirst({
+                where: { status: 'COMPLETED' },
+                orderBy: { completedAt: 'desc' },
+                select: { toModel: true },
+            }).then(migration => migration?.toModel ?? config.embeddingModel);
+            const entry = { model, expiresAt: Date.now() + ACTIVE_MODEL_TTL_MS };
+            this.activeModel = entry;
 
-    constructor() {
-        this.apiKey = process.env.OPENROUTER_API_KEY || '';
-        if (!this.apiKey) {
-            console.warn('Warning: OPENROUTER_API_KEY not set for EmbeddingService');
+            // Retry on the next call instead of caching a failed lookup
+            model.catch(() => {
+                if (this.activeModel === entry) this.activeModel = null;
+            });
         }
+        return this.activeModel.model;
+    }
+
+    /**
+     * Switch to a new active model (embedding migration cutover)
+     */
+    setActiveModel(model: string): void {
+        this.activeModel = { model: Promise.resolve(model), expiresAt: Date.now() + ACTIVE_MODEL_TTL_MS };
     }
 
     /**
@@ -24,44 +53,19 @@ export class EmbeddingService {
     }
 
     /**
-     * Generate embeddings for multiple strings in one request
+     * Generate embeddings for multiple strings in one request (with the active model unless one is given)
      */
-    async generateBatch(texts: string[]): Promise<number[][]> {
-        if (!this.apiKey) {
-            throw AppError.internal('Embedding API key not configured');
-        }
+    async generateBatch(texts: string[], model?: string): Promise<number[][]> {
+        const embeddingModel = model ?? await this.getActiveModel();
 
         try {
-            const response = await fetch(this.apiUrl, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.apiKey}`,
-                    'Content-Type': 'application/json',
-                    'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
-                    'X-Title': 'Lea4n Learning Platform',
-                },
-                body: JSON.stringify({
-                    model: this.model,
-                    input: texts,
-                }),
-            });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({}));
-                throw new Error(`Embedding API error: ${response.status} - ${JSON.stringify(errorData)}`);
-            }
-
-            const data = (await response.json()) as any;
-
-            if (!data.data || !Array.isArray(data.data)) {
-                throw new Error('Invalid response from embedding API');
-            }
-
-            // OpenRouter/OpenAI response format: { data: [{ embedding: [...] }, ...] }
-            return data.data.map((item: any) => item.embedding);
+            return await llmProvider.embed(texts, { model: embeddingModel });
         } catch (error) {
             console.error('Embedding generation failed:', error);
-            throw AppError.internal(`Failed to generate embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            // 402/429 from the provider: out of credits or rate limited
+            const code = QUOTA_ERROR_PATTERN.test(message) ? 'EMBEDDING_QUOTA_EXCEEDED' : 'EMBEDDING_FAILED';
+            throw AppError.internal(`Failed to generate embeddings: ${message}`, code);
         }
     }
 }
@@ -1,18 +1,106 @@
 import prisma from '../config/database';
+import { ALLOWED_FILE_TYPES_LABEL } from '../config/upload';
 import { textExtractionService } from './text-extraction.service';
 import { chunkingService } from './chunking.service';
 import { embeddingService } from './embedding.service';
-import { ProcessStatus } from '@prisma/client';
-import path from 'path';
+import { vectorStore } from './vector-store.service';
+import { lexicalIndexService } from './lexical-index.service';
+import { AppError, encodeVector, decodeVector } from '../utils';
+import { jobQueueService } from './job-queue.service';
+import { fileProgressService } from './file-progress.service';
+import { storage } from './storage.service';
+import { File, ProcessStatus, JobStatus, JobType } from '@prisma/client';
+
+/**
+ * Duration of each pipeline stage in milliseconds (stages not reached are absent)
+ */
+export interface ProcessTimings {
+    extractMs?: number;
+    chunkMs?: number;
+    embedMs?: number;
+    cloneMs?: number;
+    totalMs?: number;
+}
+
+/**
+ * What the user can do about each processing error code
+ */
+export const PROCESS_ERROR_HINTS: Record<string, string> = {
+    SOURCE_FILE_MISSING: 'The uploaded file is missing from storage. Delete it and upload it again.',
+    UNSUPPORTED_FILE_TYPE: `This file type cannot be read. Upload one of: ${ALLOWED_FILE_TYPES_LABEL}.`,
+    NO_TEXT_EXTRACTED: 'No readable text was found. If this is a scan or a photo, upload a sharper scan or a PDF with selectable text.',
+    EXTRACTION_FAILED: 'The file could not be read. It may be corrupted or password-protected: export it again and re-upload.',
+    DOCUMENT_TOO_LARGE: 'The document is too large once decompressed. Split it into smaller files and upload those.',
+    OCR_FAILED: 'Text recognition on the scanned pages failed. This is usually temporary: retry processing in a few minutes.',
+    EMBEDDING_QUOTA_EXCEEDED: 'The AI service usage limit was reached. Retry later, and contact support if it keeps happening.',
+    QUOTA_EXCEEDED: 'Your plan\'s monthly OCR page allowance is used up. Retry processing once it resets, or upgrade your plan.',
+    EMBEDDING_FAILED: 'Indexing the text failed on the AI service. Retry processing in a few minutes.',
+    PROCESSING_FAILED: 'Something went wrong while processing this file. Retry processing, and contact support if it keeps failing.',
+};
+
+// Errors another attempt would only repeat (OCR included); the job fails on the first one
+const PERMANENT_PROCESS_ERRORS = new Set([
+    'SOURCE_FILE_MISSING',
+    'UNSUPPORTED_FILE_TYPE',
+    'NO_TEXT_EXTRACTED',
+    'EXTRACTION_FAILED',
+    'DOCUMENT_TOO_LARGE',
+    'QUOTA_EXCEEDED',
+]);
 
 /**
  * Service to orchestrate the full file processing pipeline for RAG
  */
 export class FileProcessorService {
     /**
-     * Process a file: Extract -> Chunk -> Embed -> Store
+     * Queue a file for processing (no-op if it already has a pending or running job)
+     */
+    async enqueue(fileId: string): Promise<void> {
+        if (await jobQueueService.findOpenForFile(fileId)) return;
+
+        const file = await prisma.file.update({
+            where: { id: fileId },
+            data: { processStatus: ProcessStatus.PENDING }
+        });
+        await jobQueueService.enqueue(JobType.PROCESS_FILE, { fileId });
+        fileProgressService.report(file, { stage: 'queued' });
+    }
+
+    /**
+     * Re-queue files left PENDING or PROCESSING without a job
+     * (uploads from before the queue existed, or a job lost with its process)
+     */
+    async requeueUnfinished(): Promise<void> {
+        const files = await prisma.file.findMany({
+            where: {
+                processStatus: { in: [ProcessStatus.PENDING, ProcessStatus.PROCESSING] },
+                jobs: { none: { status: { in: [JobStatus.PENDING, JobStatus.PROCESSING] } } },
+            },
+            select: { id: true }
+        });
+
+        for (const file of files) {
+            await this.enqueue(file.id);
+        }
+
+        if (files.length > 0) {
+            console.log(`FileProcessor: Re-queued ${files.length} unfinished file(s)`);
+        }
+    }
+
+    /**
+     * Process a file: Extract -> Chunk -> Embed -> Store.
+     * Runs inside a PROCESS_FILE job; errors propagate so the queue can retry.
      */
     async processFile(fileId: string): Promise<void> {
+        const timings: ProcessTimings = {};
+        const startedAt = Date.now();
+        let stageStartedAt = startedAt;
+        const endStage = (stage: keyof ProcessTimings) => {
+            timings[stage] = Date.now() - stageStartedAt;
+            stageStartedAt = Date.now();
+        };
+
         try {
             // 1. Get file record
             const file = await prisma.file.findUnique({
@@ -24,49 +112,104 @@ export class FileProcessorService {
                 return;
             }
 
-            // Update status to PROCESSING
+            // Update status to PROCESSING and clear diagnostics of a previous run
             await prisma.file.update({
                 where: { id: fileId },
-                data: { processStatus: ProcessStatus.PROCESSING }
+                data: {
+                    processStatus: ProcessStatus.PROCESSING,
+                    processErrorCode: null,
+                    processErrorMessage: null,
+                    processTimings: null,
+                    clonedFromFileId: null,
+                    totalPages: null,
+                    processedPages: null,
+                }
             });
 
             console.log(`FileProcessor: Starting processing for file: ${file.originalName} (${fileId})`);
+            fileProgressService.report(file, { stage: 'extracting' });
+
+            // Clear chunks left over from a previous (failed or retried) run
+            await vectorStore.removeFile(file.subjectId, fileId);
+            await lexicalIndexService.removeFile(file.subjectId, fileId);
+            await prisma.fileChunk.deleteMany({ where: { fileId } });
+
+            // Same content already processed for this user: copy its chunks and embeddings instead of recomputing
+            const clone = await this.cloneFromDuplicate(file);
+            if (clone) {
+                await this.embedForActiveModel(file);
+                endStage('cloneMs');
+                timings.totalMs = Date.now() - startedAt;
 
-            // 2. Extract Text
-            // Assuming uploads are relative to be root
-            const absolutePath = path.resolve(file.path);
-            const extractionResult = await textExtractionService.extract(absolutePath, file.mimeType);
+                await prisma.file.update({
+                    where: { id: fileId },
+                    data: {
+                        processStatus: ProcessStatus.COMPLETED,
+                        processedAt: new Date(),
+                        chunkCount: clone.chunkCount,
+                        processTimings: JSON.stringify(timings),
+                        clonedFromFileId: clone.sourceFileId,
+                        totalPages: clone.totalPages,
+                        processedPages: clone.processedPages,
+                    }
+                });
+
+                console.log(`FileProcessor: Reused ${clone.chunkCount} chunks from identical file ${clone.sourceFileId} for file ${fileId}`);
+                fileProgressService.report(file, { stage: 'completed' });
+                return;
+            }
+
+            // 2. Extract Text (from a local copy when the storage driver is remote)
+            const extractionResult = await storage.withLocalFile(file.path, (localPath) =>
+                textExtractionService.extract(localPath, file.mimeType, {
+                    userId: file.userId,
+                    fileId: file.id,
+                    onOcrPage: (page, totalPages) => fileProgressService.report(file, { stage: 'ocr', current: page, total: totalPages }),
+                })
+            );
 
             if (!extractionResult.text || extractionResult.text.trim().length === 0) {
-                throw new Error('No text content extracted from file');
+                throw AppError.badRequest('No text content extracted from file', 'NO_TEXT_EXTRACTED');
             }
+            endStage('extractMs');
 
-            // 3. Chunk Text
-            const chunks = chunkingService.semanticChunking(extractionResult.text, {
-                chunkSize: 500,
-                chunkOverlap: 50
-            });
+            // Page counts are kept on the file so a truncated extraction (OCR page limit) is visible
+            const totalPages: number | null = extractionResult.metadata?.totalPages ?? null;
+            const processedPages: number | null = extractionResult.metadata?.processedPages ?? totalPages;
+
+            // 3. Chunk Text (page-aware when the extractor kept page boundaries)
+            fileProgressService.report(file, { stage: 'chunking' });
+            const chunkingOptions = { chunkSize: 500, chunkOverlap: 50 };
+            const chunks = extractionResult.pages && extractionResult.pages.length > 0
+                ? chunkingService.semanticChunkingByPage(extractionResult.pages, chunkingOptions)
+                : chunkingService.semanticChunking(extractionResult.text, chunkingOptions);
 
             console.log(`FileProcessor: Created ${chunks.length} chunks for file ${fileId}`);
+            endStage('chunkMs');
 
             // 4. Generate Embeddings & Save in Batches
             // We'll process in batches of 10 to avoid API limits and manage DB transactions
             const batchSize = 10;
+            const embeddingModel = await embeddingService.getActiveModel();
+            const totalBatches = Math.ceil(chunks.length / batchSize);
             let processedChunks = 0;
+            fileProgressService.report(file, { stage: 'embedding', current: 0, total: totalBatches });
 
             for (let i = 0; i < chunks.length; i += batchSize) {
                 const batch = chunks.slice(i, i + batchSize);
                 const textsToEmbed = batch.map(c => c.content);
 
-                const embeddings = await embeddingService.generateBatch(textsToEmbed);
+                const embeddings = await embeddingService.generateBatch(textsToEmbed, embeddingModel);
 
                 // Save chunks and embeddings in database
-                await Promise.all(batch.map(async (chunk, index) => {
+                const records = await Promise.all(batch.map(async (chunk, index) => {
                     const createdChunk = await prisma.fileChunk.create({
                         data: {
                             fileId,
                             content: chunk.content,
                             chunkIndex: chunk.index,
+                            startPage: chunk.startPage,
+                            endPage: chunk.endPage,
                             metadata: JSON.stringify(chunk.metadata || {}),
                         }
                     });
@@ -74,39 +217,190 @@ export class FileProcessorService {
                     await prisma.fileEmbedding.create({
                         data: {
                             chunkId: createdChunk.id,
-                            vector: JSON.stringify(embeddings[index]),
-                            model: 'openai/text-embedding-3-small'
+                            vectorData: encodeVector(embeddings[index]),
+                            dimensions: embeddings[index].length,
+                            model: embeddingModel
                         }
                     });
+
+                    return { chunkId: createdChunk.id, fileId, vector: embeddings[index], content: chunk.content };
                 }));
 
+                // Keep the subject's vector and keyword indexes in sync
+                await vectorStore.upsert(file.subjectId, embeddingModel, records);
+                await lexicalIndexService.upsert(file.subjectId, records);
+
                 processedChunks += batch.length;
                 console.log(`FileProcessor: Processed ${processedChunks}/${chunks.length} chunks`);
+                fileProgressService.report(file, { stage: 'embedding', current: i / batchSize + 1, total: totalBatches });
             }
 
+            await this.embedForActiveModel(file);
+            endStage('embedMs');
+            timings.totalMs = Date.now() - startedAt;
+
             // 5. Finalize status
             await prisma.file.update({
                 where: { id: fileId },
                 data: {
                     processStatus: ProcessStatus.COMPLETED,
                     processedAt: new Date(),
-                    chunkCount: chunks.length
+                    chunkCount: chunks.length,
+                    processTimings: JSON.stringify(timings),
+                    totalPages,
+                    processedPages,
                 }
             });
 
+            if (totalPages !== null && processedPages !== null && processedPages < totalPages) {
+                console.log(`FileProcessor: File ${fileId} truncated, ${processedPages}/${totalPages} pages processed`);
+            }
             console.log(`FileProcessor: Completed processing for file ${fileId}`);
+            fileProgressService.report(file, { stage: 'completed' });
         } catch (error) {
             console.error(`FileProcessor: Error processing file ${fileId}:`, error);
 
+            // Keep what failed and how far it got; the job queue decides between retry and FAILED
+            timings.totalMs = Date.now() - startedAt;
             await prisma.file.update({
                 where: { id: fileId },
-                data: { processStatus: ProcessStatus.FAILED }
-            }).catch(e => console.error('Failed to update file status to FAILED', e));
+                data: {
+                    processErrorCode: error instanceof AppError && error.code ? error.code : 'PROCESSING_FAILED',
+                    processErrorMessage: error instanceof Error ? error.message : String(error),
+                    processTimings: JSON.stringify(timings),
+                }
+            }).catch(e => console.error('Failed to record processing error', e));
+
+            throw error;
+        }
+    }
+
+    /**
+     * Copy chunks and embeddings from a processed file with the same content hash.
+     * Returns null (process normally) when there is none, or its embeddings come from another model.
+     */
+    private async cloneFromDuplicate(file: File): Promise<{
+        sourceFileId: string;
+        chunkCount: number;
+        totalPages: number | null;
+        processedPages: number | null;
+    } | null> {
+        if (!file.contentHash) return null;
+
+        const source = await prisma.file.findFirst({
+            where: {
+                id: { not: file.id },
+                userId: file.userId,
+                contentHash: file.contentHash,
+                processStatus: ProcessStatus.COMPLETED,
+                chunkCount: { gt: 0 },
+            },
+            orderBy: { processedAt: 'desc' },
+            select: { id: true, totalPages: true, processedPages: true },
+        });
+        if (!source) return null;
+
+        const activeModel = await embeddingService.getActiveModel();
+        const chunks = await prisma.fileChunk.findMany({
+            where: { fileId: source.id },
+            include: { embeddings: { where: { model: activeModel } } },
+            orderBy: { chunkIndex: 'asc' },
+        });
+
+        // Vectors from another embedding model are not comparable with the rest of the index
+        if (chunks.length === 0 || chunks.some(c => c.embeddings.length === 0)) {
+            return null;
+        }
+
+        fileProgressService.report(file, { stage: 'embedding', current: 0, total: chunks.length });
+
+        const batchSize = 50;
+        for (let i = 0; i < chunks.length; i += batchSize) {
+            const batch = chunks.slice(i, i + batchSize);
+
+            const records = await Promise.all(batch.map(async (chunk) => {
+                const embedding = chunk.embeddings[0];
+                const vector = decodeVector(embedding.vectorData ?? embedding.vector!);
+
+                const createdChunk = await prisma.fileChunk.create({
+                    data: {
+                        fileId: file.id,
+                        content: chunk.content,
+                        chunkIndex: chunk.chunkIndex,
+                        startPage: chunk.startPage,
+                        endPage: chunk.endPage,
+                        metadata: chunk.metadata,
+                    }
+                });
+
+                await prisma.fileEmbedding.create({
+                    data: {
+                        chunkId: createdChunk.id,
+                        vectorData: embedding.vectorData ?? encodeVector(vector),
+                        dimensions: vector.length,
+                        model: embedding.model
+                    }
+                });
+
+                return { chunkId: createdChunk.id, fileId: file.id, vector, content: chunk.content };
+            }));
+
+            await vectorStore.upsert(file.subjectId, activeModel, records);
+            await lexicalIndexService.upsert(file.subjectId, records);
+
+            fileProgressService.report(file, { stage: 'embedding', current: i + batch.length, total: chunks.length });
         }
+
+        return {
+            sourceFileId: source.id,
+            chunkCount: chunks.length,
+            totalPages: source.totalPages,
+            processedPages: source.processedPages,
+        };
     }
 
     /**
-     * Batch process files for a subject
+     * Embed the file's chunks that lack a vector for the active model, read fresh from the database.
+     * An embedding migration that cut over while the file was embedded covers the chunks that
+     * existed at its cutover; this covers the ones written after it.
+     */
+    private async embedForActiveModel(file: File): Promise<void> {
+        const activeModel = await embeddingService.getActiveModel({ fresh: true });
+        const chunks = await prisma.fileChunk.findMany({
+            where: { fileId: file.id, embeddings: { none: { model: activeModel } } },
+            select: { id: true, content: true },
+            orderBy: { chunkIndex: 'asc' },
+        });
+        if (chunks.length === 0) return;
+
+        console.log(`FileProcessor: Active embedding model changed to ${activeModel}, re-embedding ${chunks.length} chunks of file ${file.id}`);
+
+        const batchSize = 10;
+        for (let i = 0; i < chunks.length; i += batchSize) {
+            const batch = chunks.slice(i, i + batchSize);
+            const embeddings = await embeddingService.generateBatch(batch.map(c => c.content), activeModel);
+
+            // skipDuplicates: the migration's final pass may have embedded the same chunks
+            await prisma.fileEmbedding.createMany({
+                data: batch.map((chunk, index) => ({
+                    chunkId: chunk.id,
+                    vectorData: encodeVector(embeddings[index]),
+                    dimensions: embeddings[index].length,
+                    model: activeModel,
+                })),
+                skipDuplicates: true,
+            });
+
+            await vectorStore.upsert(file.subjectId, activeModel, batch.map((chunk, index) => ({
+                chunkId: chunk.id,
+                fileId: file.id,
+                vector: embeddings[index],
+            })));
+        }
+    }
+
+    /**
+     * Queue all pending files of a subject
      */
     async processSubjectFiles(subjectId: string): Promise<void> {
         const files = await prisma.file.findMany({
@@ -114,10 +408,25 @@ export class FileProcessorService {
         });
 
         for (const file of files) {
-            // Process sequentially to avoid overwhelming the API/DB
-            await this.processFile(file.id);
+            await this.enqueue(file.id);
         }
     }
 }
 
 export const fileProcessorService = new FileProcessorService();
+
+jobQueueService.register(JobType.PROCESS_FILE, {
+    run: job => fileProcessorService.processFile(job.fileId!),
+    isRetryable: error => !(error instanceof AppError && error.code && PERMANENT_PROCESS_ERRORS.has(error.code)),
+    // The file waits as PENDING between attempts and is FAILED once retries run out
+    onFailure: async (job, error, willRetry) => {
+        const file = await prisma.file.update({
+            where: { id: job.fileId! },
+            data: { processStatus: willRetry ? ProcessStatus.PENDING : ProcessStatus.FAILED }
+        });
+        fileProgressService.report(file, {
+            stage: willRetry ? 'queued' : 'failed',
+            message: willRetry ? `Attempt ${job.attempts} failed, retrying: ${error.message}` : error.message,
+        });
+    },
+});
@@ -0,0 +1,135 @@
+/**
+ * In-memory progress of files being processed, pushed to subscribers per subject.
+ * Only files currently in the pipeline are tracked: an entry is dropped once the
+ * file completes, fails or is deleted. State is per process, like the job worker that reports it.
+ */
+
+export type ProcessingStage = 'queued' | 'extracting' | 'ocr' | 'chunking' | 'embedding' | 'completed' | 'failed' | 'deleted';
+
+export interface FileProgress {
+    fileId: string;
+    subjectId: string;
+    fileName: string;
+    stage: ProcessingStage;
+    current?: number; // e.g. OCR page or embedding batch
+    total?: number;
+    percent: number;
+    message?: string;
+    updatedAt: Date;
+}
+
+export interface ProgressUpdate {
+    stage: ProcessingStage;
+    current?: number;
+    total?: number;
+    message?: string;
+}
+
+export type ProgressListener = (progress: FileProgress) => void;
+
+// Share of the overall bar each stage covers: [start, end] percent
+const STAGE_RANGES: Record<ProcessingStage, [number, number]> = {
+    queued: [0, 0],
+    extracting: [0, 10],
+    ocr: [10, 50],
+    chunking: [50, 55],
+    embedding: [55, 99], // 100 is reserved for completion
+    completed: [100, 100],
+    failed: [0, 0],
+    deleted: [0, 0],
+};
+
+// How long reports for a deleted file are ignored (its job may still be running)
+const DELETED_IGNORE_MS = 60 * 60 * 1000;
+
+export class FileProgressService {
+    private files = new Map<string, FileProgress>();
+    private listeners = new Map<string, Set<ProgressListener>>();
+    private deleted = new Set<string>();
+
+    /**
+     * Record a file's progress and notify the subject's subscribers
+     */
+    report(file: { id: string; subjectId: string; originalName: string }, update: ProgressUpdate): void {
+        if (this.deleted.has(file.id)) return;
+
+        const [start, end] = STAGE_RANGES[update.stage];
+        const fraction = update.total ? Math.min(1, (update.current ?? 0) / update.total) : 0;
+
+        const progress: FileProgress = {
+            fileId: file.id,
+            subjectId: file.subjectId,
+            fileName: file.originalName,
+            ...update,
+            percent: Math.round(start + (end - start) * fraction),
+            updatedAt: new Date(),
+        };
+
+        if (update.stage === 'completed' || update.stage === 'failed') {
+            this.files.delete(file.id);
+        } else {
+            this.files.set(file.id, progress);
+        }
+
+        this.notify(progress);
+    }
+
+    /**
+     * Forget a deleted file and tell subscribers it is gone (if it was in the pipeline)
+     */
+    remove(fileId: string): void {
+        const current = this.files.get(fileId);
+        if (!current) return;
+
+        this.files.delete(fileId);
+        this.deleted.add(fileId);
+        setTimeout(() => this.deleted.delete(fileId), DELETED_IGNORE_MS).unref();
+
+        this.notify({ ...current, stage: 'deleted', current: undefined, total: undefined, percent: 0, updatedAt: new Date() });
+    }
+
+    /**
+     * Current progress of one file, if it is in the pipeline
+     */
+    get(fileId: string): FileProgress | null {
+        return this.files.get(fileId) ?? null;
+    }
+
+    /**
+     * Progress of every file of a subject that is in the pipeline
+     */
+    snapshot(subjectId: string): FileProgress[] {
+        return [...this.files.values()].filter(p => p.subjectId === subjectId);
+    }
+
+    /**
+     * Listen to progress of a subject's files. Returns the unsubscribe function.
+     */
+    subscribe(subjectId: string, listener: ProgressListener): () => void {
+        let subjectListeners = this.listeners.get(subjectId);
+        if (!subjectListeners) {
+            subjectListeners = new Set();
+            this.listeners.set(subjectId, subjectListeners);
+        }
+        subjectListeners.add(listener);
+
+        return () => {
+            subjectListeners!.delete(listener);
+            if (subjectListeners!.size === 0 && this.listeners.get(subjectId) === subjectListeners) {
+                this.listeners.delete(subjectId);
+            }
+        };
+    }
+
+    private notify(progress: FileProgress): void {
+        for (const listener of this.listeners.get(progress.subjectId) ?? []) {
+            try {
+                listener(progress);
+            } catch (error) {
+                console.error('FileProgress: Listener failed:', error);
+            }
+        }
+    }
+}
+
+export const fileProgressService = new FileProgressService();
@@ -1,9 +1,17 @@
+import crypto from 'crypto';
 import prisma from '../config/database';
+import { config } from '../config';
 import { AppError } from '../utils';
-import { getFileType, deleteFileFromDisk } from '../config/upload';
+import { getFileType, discardUpload, hashFileContent } from '../config/upload';
+import { storage } from './storage.service';
 import { subjectService } from './subject.service';
-import { fileProcessorService } from './file-processor.service';
-import { FileType, FileTag, ProcessStatus } from '@prisma/client';
+import { quotaService } from './quota.service';
+import { fileProcessorService, PROCESS_ERROR_HINTS, ProcessTimings } from './file-processor.service';
+import { jobQueueService } from './job-queue.service';
+import { fileProgressService } from './file-progress.service';
+import { vectorStore } from './vector-store.service';
+import { lexicalIndexService } from './lexical-index.service';
+import { FileType, FileTag, ProcessStatus, Prisma } from '@prisma/client';
 
 export interface UploadedFile {
     filename: string;
@@ -13,6 +21,11 @@ export interface UploadedFile {
     path: string;
 }
 
+export interface SignedDownloadParams {
+    expires: number; // Unix time in seconds
+    signature: string;
+}
+
 export interface FileListOptions {
     page?: number;
     limit?: number;
@@ -36,34 +49,17 @@ export class FileService {
     ) {
         // Verify user owns the subject
         await subjectService.verifyOwnership(userId, subjectId);
+        await this.checkQuota(userId, subjectId, [file]);
 
-        const fileType = getFileType(file.mimetype);
-
-        const fileRecord = await prisma.file.create({
-            data: {
-                name: file.filename,
-                originalName: file.originalname,
-                mimeType: file.mimetype,
-                size: file.size,
-                type: fileType,
-                path: file.path,
-                tag,
-                subjectId,
-                userId,
-                processStatus: ProcessStatus.PENDING,
-            },
-        });
-
-        // Trigger processing in the background
-        fileProcessorService.processFile(fileRecord.id).catch(err => {
-            console.error(`Failed to trigger processing for file ${fileRecord.id}:`, err);
-        });
+        const contentHash = await hashFileContent(file.path);
+        await this.rejectDuplicates(subjectId, [file], [contentHash]);
 
-        return fileRecord;
+        return this.createRecord(userId, subjectId, file, contentHash, tag);
     }
 
     /**
-     * Upload multiple files
+     * Upload multiple files.
+     * The whole batch is rejected if any file is already in the subject or appears twice.
      */
     async createMany(
         userId: string,
@@ -73,14 +69,66 @@ export class FileService {
     ) {
         // Verify user owns the subject
         await subjectService.verifyOwnership(userId, subjectId);
+        await this.checkQuota(userId, subjectId, files);
+
+        const contentHashes = await Promise.all(files.map((file) => hashFileContent(file.path)));
+        await this.rejectDuplicates(subjectId, files, contentHashes);
 
         const fileRecords = await Promise.all(
-            files.map((file) => this.create(userId, subjectId, file, tag))
+            files.map((file, i) => this.createRecord(userId, subjectId, file, contentHashes[i], tag))
         );
 
         return fileRecords;
     }
 
+    /**
+     * Move the staged upload to storage, insert the file record and queue it for processing
+     */
+    private async createRecord(
+        userId: string,
+        subjectId: string,
+        file: UploadedFile,
+        contentHash: string,
+        tag?: FileTag
+    ) {
+        const fileType = getFileType(file.mimetype);
+
+        // The generated file name is the storage key
+        await storage.put(file.filename, file.path, file.mimetype);
+
+        let fileRecord;
+        try {
+            fileRecord = await prisma.file.create({
+                data: {
+                    name: file.filename,
+                    originalName: file.originalname,
+                    mimeType: file.mimetype,
+                    size: file.size,
+                    type: fileType,
+                    path: file.filename,
+                    tag,
+                    contentHash,
+                    subjectId,
+                    userId,
+                    processStatus: ProcessStatus.PENDING,
+                },
+            });
+        } catch (error) {
+            await storage.delete(file.filename).catch(console.error);
+
+            // The same content uploaded concurrently got in first (unique subjectId + contentHash)
+            if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+                throw AppError.conflict(`Already uploaded to this subject: ${file.originalname}`, 'DUPLICATE_FILE');
+            }
+            throw error;
+        }
+
+        // Queue processing; the job worker picks it up in the background
+        await fileProcessorService.enqueue(fileRecord.id);
+
+        return fileRecord;
+    }
+
     /**
      * Get all files for a subject (with ownership verification)
      */
@@ -199,24 +247,91 @@ export class FileService {
         return file;
     }
 
+    /**
+     * Issue a short-lived signed download URL for a file (with ownership verification).
+     * Meant for <img>/<iframe> tags, which can't send the Authorization header.
+     */
+    async createDownloadUrl(userId: string, fileId: string) {
+        await this.verifyOwnership(userId, fileId);
+
+        const expires = Math.floor((Date.now() + config.downloadUrlTtlMs) / 1000);
+        const query = new URLSearchParams({
+            expires: String(expires),
+            signature: this.signDownload(fileId, expires),
+        });
+
+        return {
+            url: `${config.appUrl}/api/files/${fileId}/download?${query}`,
+            expiresAt: new Date(expires * 1000),
+        };
+    }
+
+    /**
+     * Resolve a file for download, either for its owner or through a valid signed URL
+     */
+    async getDownload(fileId: string, auth: { userId: string } | SignedDownloadParams) {
+        let file;
+        if ('userId' in auth) {
+            file = await this.findById(auth.userId, fileId);
+        } else {
+            if (auth.expires * 1000 < Date.now()) {
+                throw AppError.forbidden('Download link has expired', 'DOWNLOAD_LINK_EXPIRED');
+            }
+
+            // Constant-time comparison so the signature can't be guessed byte by byte
+            const expected = Buffer.from(this.signDownload(fileId, auth.expires));
+            const provided = Buffer.from(auth.signature);
+            if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) {
+                throw AppError.forbidden('Invalid download signature', 'INVALID_DOWNLOAD_SIGNATURE');
+            }
+
+            file = await prisma.file.findUnique({ where: { id: fileId } });
+            if (!file) {
+                throw AppError.notFound('File not found', 'FILE_NOT_FOUND');
+            }
+        }
+
+        const stored = await storage.stat(file.path);
+        if (!stored) {
+            throw AppError.notFound('File content is missing from storage', 'SOURCE_FILE_MISSING');
+        }
+
+        return { file, size: stored.size };
+    }
+
+    /**
+     * HMAC of a file ID and expiry (base64url)
+     */
+    private signDownload(fileId: string, expires: number): string {
+        return crypto
+            .createHmac('sha256', config.downloadUrlSecret)
+            .update(`${fileId}:${expires}`)
+            .digest('base64url');
+    }
+
     /**
      * Delete a file (with ownership verification)
      */
     async delete(userId: string, fileId: string): Promise<void> {
         const file = await this.findById(userId, fileId);
 
-        // Delete from disk
+        // Delete from storage
         try {
-            await deleteFileFromDisk(file.path);
+            await storage.delete(file.path);
         } catch (error) {
-            console.error('Failed to delete file from disk:', error);
-            // Continue to delete from database even if disk delete fails
+            console.error('Failed to delete file from storage:', error);
+            // Continue to delete from database even if storage delete fails
         }
 
         // Delete from database
         await prisma.file.delete({
             where: { id: fileId },
         });
+
+        // Drop the file's chunks from the subject indexes
+        await vectorStore.removeFile(file.subjectId, fileId);
+        await lexicalIndexService.removeFile(file.subjectId, fileId);
+        fileProgressService.remove(fileId);
     }
 
     /**
@@ -227,18 +342,64 @@ export class FileService {
 
         const files = await prisma.file.findMany({
             where: { subjectId, userId },
-            select: { path: true },
+            select: { id: true, path: true },
         });
 
-        // Delete from disk
+        // Delete from storage
         await Promise.all(
-            files.map((file) => deleteFileFromDisk(file.path).catch(console.error))
+            files.map((file) => storage.delete(file.path).catch(console.error))
         );
 
         // Delete from database
         await prisma.file.deleteMany({
             where: { subjectId, userId },
         });
+
+        await vectorStore.removeSubject(subjectId);
+        lexicalIndexService.removeSubject(subjectId);
+        files.forEach((file) => fileProgressService.remove(file.id));
+    }
+
+    /**
+     * Throw if the upload would exceed the user's storage or files-per-subject quota.
+     * The staged uploads are discarded.
+     */
+    private async checkQuota(userId: string, subjectId: string, files: UploadedFile[]): Promise<void> {
+        try {
+            await quotaService.assertCanUpload(userId, subjectId, files.map((file) => file.size));
+        } catch (error) {
+            await this.discardUploads(files);
+            throw error;
+        }
+    }
+
+    private async discardUploads(files: UploadedFile[]): Promise<void> {
+        await Promise.all(
+            files.map((file) => discardUpload(file.path).catch(console.error))
+        );
+    }
+
+    /**
+     * Throw if an upload has the same content as a file already in the subject
+     * (or as another file of the same upload). The staged uploads are discarded.
+     */
+    private async rejectDuplicates(subjectId: string, files: UploadedFile[], contentHashes: string[]): Promise<void> {
+        const existing = await prisma.file.findMany({
+            where: { subjectId, contentHash: { in: contentHashes } },
+            select: { contentHash: true },
+        });
+        const existingHashes = new Set(existing.map((file) => file.contentHash));
+
+        const duplicates = files.filter((_file, i) =>
+            existingHashes.has(contentHashes[i]) || contentHashes.indexOf(contentHashes[i]) !== i
+        );
+        if (duplicates.length === 0) return;
+
+        await this.discardUploads(files);
+        throw AppError.conflict(
+            `Already uploaded to this subject: ${duplicates.map((file) => file.originalname).join(', ')}`,
+            'DUPLICATE_FILE'
+        );
     }
 
     /**
@@ -269,6 +430,23 @@ export class FileService {
                 processStatus: true,
                 processedAt: true,
                 chunkCount: true,
+                clonedFromFileId: true,
+                processErrorCode: true,
+                processErrorMessage: true,
+                processTimings: true,
+                totalPages: true,
+                processedPages: true,
+                jobs: {
+                    select: {
+                        status: true,
+                        attempts: true,
+                        maxAttempts: true,
+                        runAt: true,
+                        lastError: true,
+                    },
+                    orderBy: { createdAt: 'desc' },
+                    take: 1,
+                },
             }
         });
 
@@ -276,7 +454,31 @@ export class FileService {
             throw AppError.notFound('File not found', 'FILE_NOT_FOUND');
         }
 
-        return file;
+        // Latest processing job (attempts so far, next retry, last failure reason) and live pipeline progress
+        const { jobs, processErrorCode, processErrorMessage, processTimings, ...status } = file;
+        return {
+            ...status,
+            error: processErrorCode
+                ? {
+                    code: processErrorCode,
+                    message: processErrorMessage,
+                    hint: PROCESS_ERROR_HINTS[processErrorCode] ?? PROCESS_ERROR_HINTS.PROCESSING_FAILED,
+                }
+                : null,
+            timings: processTimings ? JSON.parse(processTimings) as ProcessTimings : null,
+            // Only part of the document was read (scanned PDF beyond the OCR page limit)
+            truncated: status.totalPages !== null && status.processedPages !== null && status.processedPages < status.totalPages,
+            job: jobs[0] ?? null,
+            progress: fileProgressService.get(fileId),
+        };
+    }
+
+    /**
+     * Get progress of a subject's files that are being processed (with ownership verification)
+     */
+    async getProcessingProgress(userId: string, subjectId: string) {
+        await subjectService.verifyOwnership(userId, subjectId);
+        return fileProgressService.snapshot(subjectId);
     }
 
     /**
@@ -285,16 +487,13 @@ export class FileService {
     async retryProcessing(userId: string, fileId: string) {
         const file = await this.findById(userId, fileId);
 
-        if (file.processStatus === ProcessStatus.PROCESSING) {
+        if (file.processStatus === ProcessStatus.PROCESSING || await jobQueueService.findOpenForFile(file.id)) {
             throw AppError.badRequest('File is already being processed');
         }
 
-        // Trigger processing in the background
-        fileProcessorService.processFile(file.id).catch(err => {
-            console.error(`Failed to trigger processing for file ${file.id}:`, err);
-        });
+        await fileProcessorService.enqueue(file.id);
 
-        return { message: 'Processing started' };
+        return { message: 'Processing queued' };
     }
 }
 
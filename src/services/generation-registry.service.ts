@@ -0,0 +1,207 @@
+/**
+ * Tracks in-flight streamed generations so they can be stopped and resumed.
+ * Each running assistant message has an AbortController for its upstream LLM request
+ * and a buffer of the SSE events sent so far, replayed to clients that reconnect
+ * with `Last-Event-ID`. State is per process: stop and resume requests must reach
+ * the instance that is streaming.
+ */
+
+import { Response } from 'express';
+import { config } from '../config';
+
+export type StopReason = 'user_stopped' | 'client_disconnected';
+
+/**
+ * Destination for SSE payloads (objects are JSON-encoded, strings sent as-is)
+ */
+export interface SseSink {
+    send(payload: object | string): void;
+}
+
+interface BufferedEvent {
+    id: string;
+    data: string;
+}
+
+/**
+ * Set the headers for a Server-Sent Events response
+ */
+export function setSseHeaders(res: Response): void {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no');
+}
+
+/**
+ * Parse an event ID of the form `<messageId>:<sequence>`
+ */
+export function parseEventId(value: unknown): { messageId: string; sequence: number } | null {
+    if (typeof value !== 'string') return null;
+
+    const separator = value.lastIndexOf(':');
+    const sequence = Number(value.slice(separator + 1));
+    if (separator <= 0 || !Number.isInteger(sequence) || sequence < 0) return null;
+
+    return { messageId: value.slice(0, separator), sequence };
+}
+
+/**
+ * One generation's event buffer and connected clients
+ */
+export class GenerationStream implements SseSink {
+    readonly controller = new AbortController();
+    private events: BufferedEvent[] = [];
+    private subscribers = new Set<Response>();
+    private sequence = 0;
+    private ended = false;
+    private idleTimer: NodeJS.Timeout | null = null;
+
+    constructor(
+        readonly messageId: string,
+        readonly userId: string
+    ) { }
+
+    get signal(): AbortSignal {
+        return this.controller.signal;
+    }
+
+    get isRunning(): boolean {
+        return !this.ended;
+    }
+
+    /**
+     * Buffer an event and send it to every connected client
+     */
+    send(payload: object | string): void {
+        if (this.ended) return;
+
+        const event: BufferedEvent = {
+            id: `${this.messageId}:${++this.sequence}`,
+            data: typeof payload === 'string' ? payload : JSON.stringify(payload),
+        };
+        this.events.push(event);
+
+        for (const res of this.subscribers) {
+            this.write(res, event);
+        }
+    }
+
+    /**
+     * Connect a client: replay events after `afterSequence`, then follow the live stream.
+     * If the generation already ended, the client gets the replay and the response is closed.
+     */
+    attach(res: Response, afterSequence = 0): void {
+        for (const event of this.events.slice(afterSequence)) {
+            this.write(res, event);
+        }
+
+        if (this.ended) {
+            res.end();
+            return;
+        }
+
+        this.subscribers.add(res);
+        this.clearIdleTimer();
+
+        res.on('close', () => {
+            this.subscribers.delete(res);
+            if (this.subscribers.size === 0 && !this.ended) {
+                this.scheduleIdleAbort();
+            }
+        });
+    }
+
+    /**
+     * Mark the generation as finished and close all client connections
+     */
+    end(): void {
+        if (this.ended) return;
+        this.ended = true;
+        this.clearIdleTimer();
+
+        for (const res of this.subscribers) {
+            res.end();
+        }
+        this.subscribers.clear();
+    }
+
+    private write(res: Response, event: BufferedEvent): void {
+        res.write(`id: ${event.id}\ndata: ${event.data}\n\n`);
+    }
+
+    /**
+     * With no client left, keep generating for a grace period so a reconnect can resume;
+     * abort the upstream request if nobody comes back.
+     */
+    private scheduleIdleAbort(): void {
+        this.clearIdleTimer();
+        this.idleTimer = setTimeout(() => {
+            this.idleTimer = null;
+            if (this.subscribers.size === 0 && !this.ended) {
+                this.controller.abort('client_disconnected');
+            }
+        }, config.streamResumeGraceMs);
+        this.idleTimer.unref();
+    }
+
+    private clearIdleTimer(): void {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
+    }
+}
+
+export class GenerationRegistry {
+    private streams = new Map<string, GenerationStream>();
+
+    /**
+     * Register a generation; events sent to the returned stream are buffered for replay
+     */
+    start(messageId: string, userId: string): GenerationStream {
+        const stream = new GenerationStream(messageId, userId);
+        this.streams.set(messageId, stream);
+        return stream;
+    }
+
+    /**
+     * Get a running or recently finished generation owned by a user
+     */
+    get(messageId: string, userId: string): GenerationStream | null {
+        const stream = this.streams.get(messageId);
+        return stream && stream.userId === userId ? stream : null;
+    }
+
+    /**
+     * Abort a running generation. Returns false if nothing is running for this message/user.
+     */
+    stop(messageId: string, userId: string, reason: StopReason = 'user_stopped'): boolean {
+        const stream = this.get(messageId, userId);
+        if (!stream || !stream.isRunning) return false;
+
+        stream.controller.abort(reason);
+        return true;
+    }
+
+    isActive(messageId: string): boolean {
+        return !!this.streams.get(messageId)?.isRunning;
+    }
+
+    /**
+     * End a generation's stream. The buffer is kept for a while so late reconnects still get the full answer.
+     */
+    finish(messageId: string): void {
+        const stream = this.streams.get(messageId);
+        if (!stream) return;
+
+        stream.end();
+        setTimeout(() => {
+            if (this.streams.get(messageId) === stream) {
+                this.streams.delete(messageId);
+            }
+        }, config.streamReplayRetentionMs).unref();
+    }
+}
+
+export const generationRegistry = new GenerationRegistry();
@@ -1,4 +1,4 @@
-export { authService, AuthService, AuthResponse, RegisterInput, LoginInput } from './auth.service';
+export { authService, AuthService, AuthResponse, RegisterInput, LoginInput, ResetPasswordInput } from './auth.service';
 export { subjectService, SubjectService, CreateSubjectInput, UpdateSubjectInput, SubjectListOptions } from './subject.service';
 export { conversationService, ConversationService, CreateConversationInput, UpdateConversationInput, ConversationListOptions } from './conversation.service';
 export { aiService, AIService } from './ai.service';
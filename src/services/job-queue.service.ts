@@ -0,0 +1,245 @@
+import prisma from '../config/database';
+import { config } from '../config';
+import { Job, JobStatus, JobType, Prisma } from '@prisma/client';
+
+export interface EnqueueOptions {
+    fileId?: string;
+    payload?: Record<string, unknown>;
+    maxAttempts?: number;
+}
+
+/**
+ * Work for one job type. `run` throwing counts as a failed attempt;
+ * `onFailure` lets the owner update its own records (e.g. the file's status).
+ */
+export interface JobHandler {
+    run(job: Job): Promise<void>;
+    onFailure?(job: Job, error: Error, willRetry: boolean): Promise<void>;
+    // False for errors another attempt can't fix; the job then fails right away (default: always retry)
+    isRetryable?(error: Error): boolean;
+}
+
+/**
+ * Job queue service - durable background work stored in the `jobs` table.
+ *
+ * A worker loop polls for due jobs and runs up to JOB_CONCURRENCY at a time.
+ * Failed attempts are retried with exponential backoff; the last error is kept on the job.
+ * A running job's `lockedAt` is refreshed as a lease; jobs whose lease went stale (their
+ * server stopped) are put back in the queue, or failed if they have no attempts left.
+ */
+export class JobQueueService {
+    private handlers = new Map<JobType, JobHandler>();
+    private running = new Set<string>();
+    private timer: NodeJS.Timeout | null = null;
+    private polling = false;
+    private lastRecoveryAt = 0;
+
+    /**
+     * Register the handler for a job type
+     */
+    register(type: JobType, handler: JobHandler): void {
+        this.handlers.set(type, handler);
+    }
+
+    /**
+     * Add a job to the queue
+     */
+    async enqueue(type: JobType, options: EnqueueOptions = {}): Promise<Job> {
+        const job = await prisma.job.create({
+            data: {
+                type,
+                fileId: options.fileId,
+                payload: options.payload ? JSON.stringify(options.payload) : null,
+                maxAttempts: options.maxAttempts ?? config.jobMaxAttempts,
+            },
+        });
+
+        this.poke();
+        return job;
+    }
+
+    /**
+     * Get the pending or running job for a file, if any
+     */
+    async findOpenForFile(fileId: string): Promise<Job | null> {
+        return prisma.job.findFirst({
+            where: { fileId, status: { in: [JobStatus.PENDING, JobStatus.PROCESSING] } },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Recover jobs interrupted by a restart and start the worker loop
+     */
+    async start(): Promise<void> {
+        if (this.timer) return;
+
+        await this.recoverStale();
+
+        this.timer = setInterval(() => this.poke(), config.jobPollIntervalMs);
+        this.timer.unref();
+        this.poke();
+    }
+
+    /**
+     * Stop picking up new jobs (running ones finish on their own)
+     */
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Check for due jobs now instead of waiting for the next tick
+     */
+    private poke(): void {
+        if (!this.timer) return;
+        this.poll().catch(error => console.error('Jobs: Poll failed:', error));
+    }
+
+    private async poll(): Promise<void> {
+        if (this.polling) return;
+        this.polling = true;
+
+        try {
+            // Another server may have died mid-job since the last check
+            if (Date.now() - this.lastRecoveryAt >= config.jobLockTimeoutMs / 2) {
+                await this.recoverStale();
+            }
+
+            while (this.running.size < config.jobConcurrency) {
+                const job = await this.claimNext();
+                if (!job) break;
+
+                this.running.add(job.id);
+                this.execute(job).finally(() => {
+                    this.running.delete(job.id);
+                    this.poke();
+                });
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    /**
+     * Take the oldest due job. The conditional update makes the claim atomic,
+     * so two workers never run the same job.
+     */
+    private async claimNext(): Promise<Job | null> {
+        const types = [...this.handlers.keys()];
+        if (types.length === 0) return null;
+
+        while (true) {
+            const candidate = await prisma.job.findFirst({
+                where: { status: JobStatus.PENDING, type: { in: types }, runAt: { lte: new Date() } },
+                orderBy: { runAt: 'asc' },
+            });
+            if (!candidate) return null;
+
+            const lockedAt = new Date();
+            const claimed = await prisma.job.updateMany({
+                where: { id: candidate.id, status: JobStatus.PENDING },
+                data: { status: JobStatus.PROCESSING, lockedAt, attempts: { increment: 1 } },
+            });
+
+            if (claimed.count === 1) {
+                return { ...candidate, status: JobStatus.PROCESSING, lockedAt, attempts: candidate.attempts + 1 };
+            }
+            // Someone else claimed it first: try the next one
+        }
+    }
+
+    /**
+     * Requeue jobs whose lease went stale (their server stopped mid-run).
+     * Jobs already out of attempts are failed instead.
+     */
+    private async recoverStale(): Promise<void> {
+        this.lastRecoveryAt = Date.now();
+        const staleBefore = new Date(Date.now() - config.jobLockTimeoutMs);
+        const stale = { status: JobStatus.PROCESSING, lockedAt: { lt: staleBefore } };
+
+        const requeued = await prisma.job.updateMany({
+            where: { ...stale, attempts: { lt: prisma.job.fields.maxAttempts } },
+            data: { status: JobStatus.PENDING, lockedAt: null, runAt: new Date() },
+        });
+        if (requeued.count > 0) {
+            console.log(`Jobs: Requeued ${requeued.count} interrupted job(s)`);
+        }
+
+        const exhausted = await prisma.job.findMany({ where: stale });
+        for (const job of exhausted) {
+            const error = new Error('Interrupted (server stopped) with no attempts left');
+
+            // Conditional on the lock, in case another server recovers it at the same time
+            const failed = await prisma.job.updateMany({
+                where: { id: job.id, status: JobStatus.PROCESSING, lockedAt: job.lockedAt },
+                data: { status: JobStatus.FAILED, lockedAt: null, lastError: error.message },
+            });
+            if (failed.count === 0) continue;
+
+            console.error(`Jobs: ${job.type} ${job.id} failed: ${error.message}`);
+            await this.handlers.get(job.type)?.onFailure?.(job, error, false)
+                .catch(e => console.error(`Jobs: Failure handler for ${job.id} failed:`, e));
+        }
+    }
+
+    private async execute(job: Job): Promise<void> {
+        const handler = this.handlers.get(job.type)!;
+
+        // Refresh the lease while the job runs, so long jobs aren't taken for interrupted ones
+        const heartbeat = setInterval(() => {
+            prisma.job.updateMany({
+                where: { id: job.id, status: JobStatus.PROCESSING },
+                data: { lockedAt: new Date() },
+            }).catch(e => console.error(`Jobs: Failed to refresh lock of ${job.id}:`, e));
+        }, config.jobLockTimeoutMs / 3);
+        heartbeat.unref();
+
+        try {
+            await handler.run(job);
+        } catch (err) {
+            clearInterval(heartbeat);
+            const error = err instanceof Error ? err : new Error(String(err));
+            const willRetry = job.attempts < job.maxAttempts && (handler.isRetryable?.(error) ?? true);
+            const delay = config.jobRetryBaseMs * 2 ** (job.attempts - 1);
+
+            console.error(
+                `Jobs: ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts})` +
+                (willRetry ? `, retrying in ${Math.round(delay / 1000)}s` : '') + ':',
+                error.message
+            );
+
+            await prisma.job.update({
+                where: { id: job.id },
+                data: {
+                    status: willRetry ? JobStatus.PENDING : JobStatus.FAILED,
+                    runAt: willRetry ? new Date(Date.now() + delay) : undefined,
+                    lockedAt: null,
+                    lastError: error.message,
+                },
+            }).catch(e => this.logUpdateError(job, e));
+
+            await handler.onFailure?.(job, error, willRetry)
+                .catch(e => console.error(`Jobs: Failure handler for ${job.id} failed:`, e));
+            return;
+        }
+
+        clearInterval(heartbeat);
+        await prisma.job.update({
+            where: { id: job.id },
+            data: { status: JobStatus.COMPLETED, completedAt: new Date(), lockedAt: null, lastError: null },
+        }).catch(e => this.logUpdateError(job, e));
+    }
+
+    private logUpdateError(job: Job, error: unknown): void {
+        // The job row is gone when its file was deleted mid-run
+        if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') return;
+        console.error(`Jobs: Failed to update job ${job.id}:`, error);
+    }
+}
+
+// Export singleton instance
+export const jobQueueService = new JobQueueService();
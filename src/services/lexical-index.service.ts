@@ -0,0 +1,117 @@
+import prisma from '../config/database';
+import { Bm25Index } from '../utils/bm25Index';
+
+export interface LexicalRecord {
+    chunkId: string;
+    fileId: string;
+    content: string;
+}
+
+export interface LexicalSearchHit {
+    chunkId: string;
+    fileId: string;
+    score: number;
+    relevance: number; // 0-1, comparable across queries (see Bm25Index.search)
+}
+
+// Chunks fetched per query when building an index from the database
+const BUILD_PAGE_SIZE = 1000;
+
+/**
+ * Per-subject BM25 indexes over `FileChunk.content`.
+ * Indexes are built lazily from the database on the first search for a subject,
+ * then kept in sync by the file pipeline.
+ */
+export class LexicalIndexService {
+    private indexes = new Map<string, Bm25Index>();
+    private building = new Map<string, Promise<Bm25Index>>();
+
+    async upsert(subjectId: string, records: LexicalRecord[]): Promise<void> {
+        // Not loaded yet: the lazy build will pick these rows up from the database
+        const index = await this.getLoadedIndex(subjectId);
+        if (!index) return;
+
+        for (const record of records) {
+            index.add(record.chunkId, record.fileId, record.content);
+        }
+    }
+
+    async removeFile(subjectId: string, fileId: string): Promise<void> {
+        const index = await this.getLoadedIndex(subjectId);
+        index?.removeGroup(fileId);
+    }
+
+    removeSubject(subjectId: string): void {
+        this.indexes.delete(subjectId);
+        this.building.delete(subjectId);
+    }
+
+    async search(subjectId: string, query: string, k: number): Promise<LexicalSearchHit[]> {
+        const index = await this.getIndex(subjectId);
+
+        return index.search(query, k).map(match => ({
+            chunkId: match.label,
+            fileId: match.group,
+            score: match.score,
+            relevance: match.relevance,
+        }));
+    }
+
+    /**
+     * Return the subject's index if it is loaded or loading, without triggering a build
+     */
+    private async getLoadedIndex(subjectId: string): Promise<Bm25Index | undefined> {
+        return this.indexes.get(subjectId) ?? this.building.get(subjectId);
+    }
+
+    private getIndex(subjectId: string): Promise<Bm25Index> {
+        const loaded = this.indexes.get(subjectId);
+        if (loaded) return Promise.resolve(loaded);
+
+        let pending = this.building.get(subjectId);
+        if (!pending) {
+            pending = this.build(subjectId)
+                .then(index => {
+                    // Skip caching if the subject was removed mid-build
+                    if (this.building.get(subjectId) === pending) {
+                        this.indexes.set(subjectId, index);
+                    }
+                    return index;
+                })
+                .finally(() => {
+                    if (this.building.get(subjectId) === pending) {
+                        this.building.delete(subjectId);
+                    }
+                });
+            this.building.set(subjectId, pending);
+        }
+        return pending;
+    }
+
+    private async build(subjectId: string): Promise<Bm25Index> {
+        const index = new Bm25Index();
+        let cursor: string | undefined;
+
+        while (true) {
+            const chunks = await prisma.fileChunk.findMany({
+                where: { file: { subjectId } },
+                select: { id: true, fileId: true, content: true },
+                orderBy: { id: 'asc' },
+                take: BUILD_PAGE_SIZE,
+                ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+            });
+
+            if (chunks.length === 0) break;
+            cursor = chunks[chunks.length - 1].id;
+
+            for (const chunk of chunks) {
+                index.add(chunk.id, chunk.fileId, chunk.content);
+            }
+        }
+
+        console.log(`LexicalIndex: Built BM25 index for subject ${subjectId} (${index.size} chunks)`);
+        return index;
+    }
+}
+
+export const lexicalIndexService = new LexicalIndexService();
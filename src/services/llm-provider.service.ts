@@ -0,0 +1,355 @@
+/**
+ * LLM Provider abstraction
+ * One interface for chat, streaming, embeddings and vision calls so the AI, embedding
+ * and OCR services don't depend on a specific vendor. Selected through `config.llmProvider`.
+ */
+
+import crypto from 'crypto';
+import { config } from '../config';
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export type LLMContentPart =
+    | { type: 'text'; text: string }
+    | { type: 'image_url'; image_url: { url: string } };
+
+export interface LLMMessage {
+    role: LLMRole;
+    content: string | LLMContentPart[];
+}
+
+export interface LLMUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+export interface LLMRequestOptions {
+    model: string;
+    temperature?: number;
+    signal?: AbortSignal;
+}
+
+export interface LLMChatResult {
+    content: string;
+    model: string;
+    usage?: LLMUsage;
+}
+
+/**
+ * A streamed piece of a completion. Content deltas arrive first; usage (when the
+ * provider reports it) arrives with the final delta.
+ */
+export interface LLMStreamDelta {
+    content?: string;
+    usage?: LLMUsage;
+}
+
+export interface LLMImageInput {
+    mimeType: string;
+    base64: string;
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    chat(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMChatResult>;
+    chatStream(messages: LLMMessage[], options: LLMRequestOptions): AsyncGenerator<LLMStreamDelta>;
+    embed(texts: string[], options: { model: string }): Promise<number[][]>;
+    vision(prompt: string, image: LLMImageInput, options: LLMRequestOptions): Promise<string>;
+}
+
+interface OpenAIUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+}
+
+interface OpenAIChatResponse {
+    id: string;
+    model?: string;
+    choices: Array<{
+        message: {
+            role: string;
+            content: string;
+        };
+        finish_reason: string;
+    }>;
+    usage?: OpenAIUsage;
+}
+
+interface OpenAIStreamChunk {
+    id: string;
+    choices: Array<{
+        delta: {
+            content?: string;
+        };
+        finish_reason: string | null;
+    }>;
+    usage?: OpenAIUsage;
+}
+
+function toUsage(usage?: OpenAIUsage): LLMUsage | undefined {
+    if (!usage) return undefined;
+    return {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+    };
+}
+
+/**
+ * Any server speaking the OpenAI REST API (`/chat/completions`, `/embeddings`):
+ * OpenAI itself, llama.cpp server, Ollama, vLLM, LM Studio...
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly name: string = 'openai-compatible';
+
+    constructor(
+        protected baseUrl: string,
+        protected apiKey: string = ''
+    ) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+    }
+
+    async chat(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMChatResult> {
+        const response = await this.post('/chat/completions', {
+            model: options.model,
+            messages,
+            // No max_tokens limit - let model output as much as needed
+            temperature: options.temperature ?? 0.7,
+        }, options.signal);
+
+        const data = await response.json() as OpenAIChatResponse;
+
+        if (!data.choices || data.choices.length === 0) {
+            throw new Error('No response from AI model');
+        }
+
+        return {
+            content: data.choices[0].message.content,
+            model: data.model || options.model,
+            usage: toUsage(data.usage),
+        };
+    }
+
+    async *chatStream(messages: LLMMessage[], options: LLMRequestOptions): AsyncGenerator<LLMStreamDelta> {
+        const response = await this.post('/chat/completions', {
+            model: options.model,
+            messages,
+            temperature: options.temperature ?? 0.7,
+            stream: true,
+            stream_options: { include_usage: true },
+        }, options.signal);
+
+        if (!response.body) {
+            throw new Error('No response body');
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                // SSE lines can be split across network chunks; keep the trailing partial line
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+
+                for (const line of lines) {
+                    if (!line.startsWith('data: ')) continue;
+
+                    const data = line.slice(6).trim();
+                    if (data === '[DONE]') return;
+
+                    try {
+                        const parsed = JSON.parse(data) as OpenAIStreamChunk;
+                        const content = parsed.choices?.[0]?.delta?.content;
+                        const usage = toUsage(parsed.usage);
+
+                        if (content || usage) {
+                            yield { content: content || undefined, usage };
+                        }
+                    } catch {
+                        // Skip invalid JSON
+                    }
+                }
+            }
+        } finally {
+            reader.releaseLock();
+        }
+    }
+
+    async embed(texts: string[], options: { model: string }): Promise<number[][]> {
+        const response = await this.post('/embeddings', {
+            model: options.model,
+            input: texts,
+        });
+
+        const data = await response.json() as { data?: Array<{ embedding: number[]; index?: number }> };
+
+        if (!data.data || !Array.isArray(data.data)) {
+            throw new Error('Invalid response from embedding API');
+        }
+
+        // OpenAI response format: { data: [{ embedding: [...], index }, ...] }
+        return data.data
+            .slice()
+            .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+            .map(item => item.embedding);
+    }
+
+    async vision(prompt: string, image: LLMImageInput, options: LLMRequestOptions): Promise<string> {
+        const result = await this.chat([
+            {
+                role: 'user',
+                content: [
+                    { type: 'text', text: prompt },
+                    { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.base64}` } },
+                ],
+            },
+        ], options);
+
+        if (!result.content) {
+            throw new Error('Invalid response from vision model');
+        }
+        return result.content;
+    }
+
+    protected headers(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {}),
+        };
+    }
+
+    protected async post(endpoint: string, body: unknown, signal?: AbortSignal): Promise<globalThis.Response> {
+        const response = await fetch(`${this.baseUrl}${endpoint}`, {
+            method: 'POST',
+            headers: this.headers(),
+            body: JSON.stringify(body),
+            signal,
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({})) as { error?: { message?: string } };
+            throw new Error(
+                `${this.name} API error: ${response.status} - ${errorData.error?.message || response.statusText}`
+            );
+        }
+
+        return response;
+    }
+}
+
+/**
+ * OpenRouter: OpenAI-compatible, with attribution headers and a mandatory API key
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+    readonly name = 'openrouter';
+
+    constructor(apiKey: string, baseUrl = 'https://openrouter.ai/api/v1') {
+        super(baseUrl, apiKey);
+        if (!apiKey) {
+            console.warn('Warning: LLM_API_KEY / OPENROUTER_API_KEY not set. AI features will not work.');
+        }
+    }
+
+    protected headers(): Record<string, string> {
+        return {
+            ...super.headers(),
+            'HTTP-Referer': config.appUrl,
+            'X-Title': 'Lea4n Learning Platform',
+        };
+    }
+
+    protected async post(endpoint: string, body: unknown, signal?: AbortSignal): Promise<globalThis.Response> {
+        if (!this.apiKey) {
+            throw new Error('OpenRouter API key not configured');
+        }
+        return super.post(endpoint, body, signal);
+    }
+}
+
+/**
+ * Deterministic offline provider for tests and local development.
+ * Same input always gives the same output; embeddings use feature hashing so
+ * texts sharing words are similar, which keeps retrieval meaningful.
+ */
+export class FakeLLMProvider implements LLMProvider {
+    readonly name = 'fake';
+
+    constructor(private dimensions = 1536) { }
+
+    async chat(messages: LLMMessage[], options: LLMRequestOptions): Promise<LLMChatResult> {
+        const content = this.respond(messages, options.model);
+        return {
+            content,
+            model: options.model,
+            usage: this.usage(messages, content),
+        };
+    }
+
+    async *chatStream(messages: LLMMessage[], options: LLMRequestOptions): AsyncGenerator<LLMStreamDelta> {
+        const content = this.respond(messages, options.model);
+        const words = content.split(/(?<= )/);
+
+        for (const word of words) {
+            if (options.signal?.aborted) return;
+            yield { content: word };
+        }
+        yield { usage: this.usage(messages, content) };
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => {
+            const vector = new Array<number>(this.dimensions).fill(0);
+            for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+                const hash = crypto.createHash('md5').update(word).digest();
+                const slot = hash.readUInt32LE(0) % this.dimensions;
+                vector[slot] += hash[4] & 1 ? 1 : -1;
+            }
+            return vector;
+        });
+    }
+
+    async vision(_prompt: string, image: LLMImageInput): Promise<string> {
+        const digest = crypto.createHash('sha256').update(image.base64).digest('hex').slice(0, 12);
+        return `Fake OCR text for ${image.mimeType} image ${digest}`;
+    }
+
+    private respond(messages: LLMMessage[], model: string): string {
+        const lastUser = [...messages].reverse().find(m => m.role === 'user');
+        const text = typeof lastUser?.content === 'string'
+            ? lastUser.content
+            : lastUser?.content.map(part => part.type === 'text' ? part.text : '').join(' ') || '';
+        const digest = crypto.createHash('sha256').update(JSON.stringify(messages)).digest('hex').slice(0, 8);
+        return `[fake:${model}:${digest}] ${text.slice(0, 200)}`;
+    }
+
+    private usage(messages: LLMMessage[], completion: string): LLMUsage {
+        const promptTokens = Math.ceil(JSON.stringify(messages).length / 4);
+        const completionTokens = Math.ceil(completion.length / 4);
+        return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+    }
+}
+
+/**
+ * Build the provider selected in config
+ */
+export function createLLMProvider(): LLMProvider {
+    switch (config.llmProvider) {
+        case 'fake':
+            return new FakeLLMProvider();
+        case 'openai-compatible':
+            return new OpenAICompatibleProvider(config.llmBaseUrl, config.llmApiKey);
+        case 'openrouter':
+        default:
+            return new OpenRouterProvider(config.llmApiKey, config.llmBaseUrl);
+    }
+}
+
+export const llmProvider = createLLMProvider();
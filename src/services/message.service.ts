@@ -2,51 +2,123 @@ import prisma from '../config/database';
 import { AppError } from '../utils';
 import { conversationService } from './conversation.service';
 import { aiService, buildSystemPrompt } from './ai.service';
-import { ragService } from './rag.service';
+import { ragService, MessageCitation, RetrievalSource } from './rag.service';
 import { memoryService } from './memory.service';
-import { MessageRole, MemoryCategory } from '@prisma/client';
+import { aiModelService } from './ai-model.service';
+import { tokenBudgetService } from './token-budget.service';
+import { LLMUsage } from './llm-provider.service';
+import { conversationSummaryService, HistoryMessage } from './conversation-summary.service';
+import { generationRegistry, setSseHeaders } from './generation-registry.service';
+import { quotaService } from './quota.service';
+import { MessageRole, MessageStatus, MemoryCategory } from '@prisma/client';
 
 export interface CreateMessageInput {
     content: string;
     role: MessageRole;
+    parentId?: string | null; // Defaults to the end of the active branch
+    model?: string;
+    status?: MessageStatus;
+    usage?: LLMUsage;
+    citations?: MessageCitation[];
+    sources?: RetrievalSource[];
 }
 
+// Fields returned for each persisted message source
+export const messageSourceSelect = {
+    chunkId: true,
+    rank: true,
+    fileId: true,
+    fileName: true,
+    tag: true,
+    similarity: true,
+    score: true,
+    startPage: true,
+    endPage: true,
+    sectionPath: true,
+} as const;
+
 /**
  * Message service handling all message-related business logic.
  * Ensures strict isolation - users can only access messages in their conversations.
  */
 export class MessageService {
     /**
-     * Create a new message in a conversation
+     * Create a new message in a conversation.
+     * The message is attached under `parentId` (defaults to the end of the active branch)
+     * and becomes the new end of the active branch.
      */
     async create(userId: string, conversationId: string, input: CreateMessageInput) {
         // Verify user owns the conversation
         await conversationService.verifyOwnership(userId, conversationId);
 
-        const message = await prisma.message.create({
-            data: {
-                content: input.content,
-                role: input.role,
-                conversationId,
-            },
-        });
+        const parentId = input.parentId !== undefined
+            ? input.parentId
+            : await this.ensureTree(conversationId);
+
+        // One transaction, so an answer is never saved without its sources
+        return prisma.$transaction(async (tx) => {
+            const message = await tx.message.create({
+                data: {
+                    content: input.content,
+                    role: input.role,
+                    model: input.model ?? null,
+                    status: input.status,
+                    promptTokens: input.usage?.promptTokens ?? null,
+                    completionTokens: input.usage?.completionTokens ?? null,
+                    totalTokens: input.usage?.totalTokens ?? null,
+                    citations: input.citations && input.citations.length > 0 ? JSON.stringify(input.citations) : null,
+                    parentId,
+                    conversationId,
+                },
+            });
 
-        // Update conversation's updatedAt timestamp
-        await prisma.conversation.update({
-            where: { id: conversationId },
-            data: { updatedAt: new Date() },
-        });
+            // Record which chunks were in context for this answer
+            if (input.sources && input.sources.length > 0) {
+                // Chunks deleted while the answer was generated (file deleted or reprocessed)
+                // keep their source entry, without the link, as the foreign key would otherwise fail
+                const existing = await tx.fileChunk.findMany({
+                    where: { id: { in: input.sources.map(source => source.chunkId) } },
+                    select: { id: true },
+                });
+                const existingIds = new Set(existing.map(chunk => chunk.id));
+
+                await tx.messageSource.createMany({
+                    data: input.sources.map(source => ({
+                        messageId: message.id,
+                        chunkId: existingIds.has(source.chunkId) ? source.chunkId : null,
+                        rank: source.rank,
+                        similarity: source.similarity,
+                        score: source.score,
+                        fileId: source.fileId,
+                        fileName: source.fileName,
+                        tag: source.tag ?? null,
+                        startPage: source.startPage ?? null,
+                        endPage: source.endPage ?? null,
+                        sectionPath: source.sectionPath ?? null,
+                    })),
+                });
+            }
 
-        return message;
+            // Move the active branch to the new message and update conversation's updatedAt timestamp
+            await tx.conversation.update({
+                where: { id: conversationId },
+                data: { activeLeafId: message.id, updatedAt: new Date() },
+            });
+
+            return message;
+        });
     }
 
     /**
-     * Get all messages for a conversation with feedback
+     * Get the messages on the active branch of a conversation, with feedback.
+     * Each message lists its sibling IDs (alternative versions) so clients can switch branches.
      */
-    async findByConversation(userId: string, conversationId: string) {
+    async findByConversation(userId: string, conversationId: string, leafId?: string) {
         // Verify user owns the conversation
         await conversationService.verifyOwnership(userId, conversationId);
 
+        const activeLeafId = leafId ?? await this.ensureTree(conversationId);
+
         const messages = await prisma.message.findMany({
             where: { conversationId },
             orderBy: { createdAt: 'asc' },
@@ -58,13 +130,34 @@ export class MessageService {
                         reasons: true,
                         feedback: true,
                     }
+                },
+                sources: {
+                    select: messageSourceSelect,
+                    orderBy: { rank: 'asc' },
                 }
             }
         });
 
-        // Parse feedback reasons JSON for each message
-        return messages.map(msg => ({
+        // Walk from the leaf up to the root to get the active path
+        const byId = new Map(messages.map(msg => [msg.id, msg]));
+        const path: typeof messages = [];
+        for (let current = activeLeafId ? byId.get(activeLeafId) : undefined; current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+            path.unshift(current);
+        }
+
+        // Siblings share a parent (root messages share the null parent)
+        const siblings = new Map<string | null, string[]>();
+        for (const msg of messages) {
+            const ids = siblings.get(msg.parentId) || [];
+            ids.push(msg.id);
+            siblings.set(msg.parentId, ids);
+        }
+
+        // Parse feedback reasons and citations JSON for each message
+        return path.map(msg => ({
             ...msg,
+            siblingIds: siblings.get(msg.parentId) || [msg.id],
+            citations: msg.citations ? JSON.parse(msg.citations) as MessageCitation[] : [],
             feedback: msg.feedback ? {
                 ...msg.feedback,
                 reasons: msg.feedback.reasons ? JSON.parse(msg.feedback.reasons) : [],
@@ -73,15 +166,19 @@ export class MessageService {
     }
 
     /**
-     * Get conversation history formatted for AI
+     * Get conversation history formatted for AI, following only the active branch
+     * @param leafId - Last message to include (defaults to the end of the active branch)
      */
     async getConversationHistory(
         userId: string,
-        conversationId: string
-    ): Promise<Array<{ role: 'user' | 'assistant' | 'system'; content: string }>> {
-        const messages = await this.findByConversation(userId, conversationId);
+        conversationId: string,
+        leafId?: string
+    ): Promise<HistoryMessage[]> {
+        const messages = await this.findByConversation(userId, conversationId, leafId);
 
-        return messages.map((msg) => ({
+        // Replies that failed or never produced any content are left out of the prompt
+        return messages.filter(msg => msg.content.length > 0).map((msg) => ({
+            id: msg.id,
             role: msg.role.toLowerCase() as 'user' | 'assistant' | 'system',
             content: msg.content,
         }));
@@ -89,34 +186,122 @@ export class MessageService {
 
     /**
      * Send a message and get AI response using RAG and Memory
+     * @param model - Optional chat model override (must be in the allowlist)
      */
     async sendMessageAndGetResponse(
         userId: string,
         conversationId: string,
-        content: string
+        content: string,
+        model?: string
     ) {
         // 1. Verify ownership and get conversation context with subject name
-        const conversation = await prisma.conversation.findFirst({
-            where: { id: conversationId, userId },
-            select: {
-                subjectId: true,
-                subject: { select: { title: true } }
-            }
+        const conversation = await this.getConversationContext(userId, conversationId);
+
+        // Resolve the chat model before writing anything, so a rejected model leaves no orphan message
+        const chatModel = await aiModelService.resolve(userId, conversation.subjectId, model);
+        await quotaService.assertCanSendMessage(userId);
+
+        // 2. Create user message
+        const userMessage = await this.create(userId, conversationId, {
+            content,
+            role: 'USER',
         });
 
-        if (!conversation) {
-            throw AppError.notFound('Conversation not found');
+        return this.respondTo(userId, conversationId, conversation, userMessage, chatModel);
+    }
+
+    /**
+     * Generate a new answer to the same user message, as a sibling of an assistant message
+     * @param model - Optional chat model override (must be in the allowlist)
+     */
+    async regenerate(userId: string, conversationId: string, messageId: string, model?: string) {
+        const conversation = await this.getConversationContext(userId, conversationId);
+        const message = await this.findMessage(conversationId, messageId);
+
+        if (message.role !== 'ASSISTANT' || !message.parentId) {
+            throw AppError.badRequest('Only assistant replies can be regenerated', 'INVALID_MESSAGE_ROLE');
         }
 
-        const subjectName = conversation.subject?.title;
-        const subjectId = conversation.subjectId;
+        const chatModel = await aiModelService.resolve(userId, conversation.subjectId, model);
+        await quotaService.assertCanSendMessage(userId);
+        const userMessage = await this.findMessage(conversationId, message.parentId);
 
-        // 2. Create user message
+        // Same question as before: its memories were already extracted
+        return this.respondTo(userId, conversationId, conversation, userMessage, chatModel, { extractMemories: false });
+    }
+
+    /**
+     * Edit a user message: the new text becomes a sibling branch and gets a fresh answer.
+     * The original message and its replies are kept and can be switched back to.
+     * @param model - Optional chat model override (must be in the allowlist)
+     */
+    async editAndResend(userId: string, conversationId: string, messageId: string, content: string, model?: string) {
+        const conversation = await this.getConversationContext(userId, conversationId);
+        const original = await this.findMessage(conversationId, messageId);
+
+        if (original.role !== 'USER') {
+            throw AppError.badRequest('Only user messages can be edited', 'INVALID_MESSAGE_ROLE');
+        }
+
+        const chatModel = await aiModelService.resolve(userId, conversation.subjectId, model);
+        await quotaService.assertCanSendMessage(userId);
         const userMessage = await this.create(userId, conversationId, {
             content,
             role: 'USER',
+            parentId: original.parentId,
         });
 
+        return this.respondTo(userId, conversationId, conversation, userMessage, chatModel);
+    }
+
+    /**
+     * Make the branch containing a message active.
+     * Below that message, the most recent reply is followed at each step.
+     */
+    async switchBranch(userId: string, conversationId: string, messageId: string) {
+        await conversationService.verifyOwnership(userId, conversationId);
+        await this.ensureTree(conversationId);
+        await this.findMessage(conversationId, messageId);
+
+        const messages = await prisma.message.findMany({
+            where: { conversationId },
+            select: { id: true, parentId: true },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        const latestChild = new Map<string, string>();
+        for (const msg of messages) {
+            if (msg.parentId) latestChild.set(msg.parentId, msg.id);
+        }
+
+        let leafId = messageId;
+        while (latestChild.has(leafId)) {
+            leafId = latestChild.get(leafId)!;
+        }
+
+        await prisma.conversation.update({
+            where: { id: conversationId },
+            data: { activeLeafId: leafId },
+        });
+
+        return this.findByConversation(userId, conversationId, leafId);
+    }
+
+    /**
+     * Answer a user message using RAG and Memory, saving the reply as its child.
+     * Memories are extracted unless the user message was already answered before (regenerate).
+     */
+    private async respondTo(
+        userId: string,
+        conversationId: string,
+        conversation: { subjectId: string; subjectName?: string },
+        userMessage: { id: string; content: string },
+        chatModel: string,
+        options: { extractMemories: boolean } = { extractMemories: true }
+    ) {
+        const { subjectId, subjectName } = conversation;
+        const content = userMessage.content;
+
         // 3. Retrieve relevant context from files (RAG)
         const retrievalResult = await ragService.retrieve(userId, content, {
             subjectId,
@@ -139,44 +324,50 @@ export class MessageService {
         // 6. Build smart AI prompt with subject context, memory, AND file list
         const systemPrompt = buildSystemPrompt(subjectName, contextText, memoryContext, availableFiles);
 
-        // 6. Get conversation history
-        const history = await this.getConversationHistory(userId, conversationId);
+        // 6. Get conversation history up to this message (older turns replaced by the rolling summary)
+        const fullHistory = await this.getConversationHistory(userId, conversationId, userMessage.id);
+        const { summary, messages: history } = await conversationSummaryService.applySummary(conversationId, fullHistory);
 
-        // 7. Get AI response
-        const aiResponse = await aiService.chat(history, systemPrompt);
+        // 7. Get AI response and validate its [^N] citation markers
+        const completion = await aiService.complete(
+            history,
+            conversationSummaryService.formatForPrompt(systemPrompt, summary),
+            chatModel
+        );
+        const { content: answer, citations } = ragService.resolveCitations(completion.content, retrievalResult.chunks);
+        const sources = ragService.toSources(retrievalResult.chunks);
 
-        // 8. Save AI response
+        // 8. Save AI response with its retrieval sources
         const assistantMessage = await this.create(userId, conversationId, {
-            content: aiResponse,
+            content: answer,
             role: 'ASSISTANT',
+            parentId: userMessage.id,
+            model: chatModel,
+            usage: completion.usage,
+            citations,
+            sources,
         });
+        await quotaService.recordMessage(userId);
 
-        // 9. Extract and save memories (fire-and-forget, non-blocking)
-        this.extractAndSaveMemories(userId, subjectId, conversationId, content, aiResponse)
-            .catch(err => console.error('Memory extraction failed:', err));
+        // 9. Extract and save memories, and update the rolling summary (fire-and-forget, non-blocking)
+        if (options.extractMemories) {
+            this.extractAndSaveMemories(userId, subjectId, conversationId, content, answer)
+                .catch(err => console.error('Memory extraction failed:', err));
+        }
+        conversationSummaryService.refresh(conversationId, [...fullHistory, { id: assistantMessage.id, role: 'assistant', content: answer }])
+            .catch(err => console.error('Conversation summary failed:', err));
 
         return {
             userMessage,
-            assistantMessage,
-            sources: retrievalResult.chunks.map(chunk => ({
-                fileName: chunk.fileName,
-                fileId: chunk.fileId,
-                tag: chunk.fileTag,
-                similarity: chunk.similarity
-            }))
+            assistantMessage: { ...assistantMessage, citations, sources },
+            sources
         };
     }
 
     /**
-     * Stream message and AI response using RAG and Memory
+     * Verify ownership and get the subject a conversation belongs to
      */
-    async streamMessageAndGetResponse(
-        userId: string,
-        conversationId: string,
-        content: string,
-        res: any // Express Response
-    ) {
-        // 1. Verify ownership and get conversation context with subject name
+    private async getConversationContext(userId: string, conversationId: string) {
         const conversation = await prisma.conversation.findFirst({
             where: { id: conversationId, userId },
             select: {
@@ -189,8 +380,80 @@ export class MessageService {
             throw AppError.notFound('Conversation not found');
         }
 
-        const subjectName = conversation.subject?.title;
-        const subjectId = conversation.subjectId;
+        return { subjectId: conversation.subjectId, subjectName: conversation.subject?.title };
+    }
+
+    /**
+     * Get a message that must belong to the given conversation
+     */
+    private async findMessage(conversationId: string, messageId: string) {
+        const message = await prisma.message.findFirst({
+            where: { id: messageId, conversationId },
+        });
+
+        if (!message) {
+            throw AppError.notFound('Message not found', 'MESSAGE_NOT_FOUND');
+        }
+
+        return message;
+    }
+
+    /**
+     * Return the end of the active branch, converting conversations
+     * created before message trees (flat, ordered by createdAt) into a single chain.
+     */
+    private async ensureTree(conversationId: string): Promise<string | null> {
+        const conversation = await prisma.conversation.findUnique({
+            where: { id: conversationId },
+            select: { activeLeafId: true },
+        });
+
+        if (conversation?.activeLeafId) {
+            return conversation.activeLeafId;
+        }
+
+        const messages = await prisma.message.findMany({
+            where: { conversationId },
+            select: { id: true, parentId: true },
+            orderBy: { createdAt: 'asc' },
+        });
+
+        if (messages.length === 0) {
+            return null;
+        }
+
+        // Legacy flat conversation: each message replies to the one before it
+        await prisma.$transaction([
+            ...messages.slice(1)
+                .map((msg, i) => ({ msg, parentId: messages[i].id }))
+                .filter(({ msg }) => !msg.parentId)
+                .map(({ msg, parentId }) => prisma.message.update({ where: { id: msg.id }, data: { parentId } })),
+            prisma.conversation.update({
+                where: { id: conversationId },
+                data: { activeLeafId: messages[messages.length - 1].id },
+            }),
+        ]);
+
+        return messages[messages.length - 1].id;
+    }
+
+    /**
+     * Stream message and AI response using RAG and Memory
+     * @param model - Optional chat model override (must be in the allowlist)
+     */
+    async streamMessageAndGetResponse(
+        userId: string,
+        conversationId: string,
+        content: string,
+        res: any, // Express Response
+        model?: string
+    ) {
+        // 1. Verify ownership and get conversation context with subject name
+        const { subjectId, subjectName } = await this.getConversationContext(userId, conversationId);
+
+        // Resolve the chat model before writing anything, so a rejected model leaves no orphan message
+        const chatModel = await aiModelService.resolve(userId, subjectId, model);
+        await quotaService.assertCanSendMessage(userId);
 
         // 2. Create user message
         const userMessage = await this.create(userId, conversationId, {
@@ -220,67 +483,170 @@ export class MessageService {
         // 6. Build smart AI prompt with subject context, memory, AND file list
         const systemPrompt = buildSystemPrompt(subjectName, contextText, memoryContext, availableFiles);
 
-        // 6. Set up SSE headers
-        res.setHeader('Content-Type', 'text/event-stream');
-        res.setHeader('Cache-Control', 'no-cache');
-        res.setHeader('Connection', 'keep-alive');
-        res.setHeader('X-Accel-Buffering', 'no');
-
-        // 7. Send user message and sources first
-        const sources = retrievalResult.chunks.map(chunk => ({
-            fileName: chunk.fileName,
-            fileId: chunk.fileId,
-            tag: chunk.fileTag,
-            similarity: chunk.similarity
-        }));
+        // 7. Get conversation history (older turns replaced by the rolling summary)
+        const fullHistory = await this.getConversationHistory(userId, conversationId, userMessage.id);
+        const sources = ragService.toSources(retrievalResult.chunks);
+
+        // 8. Create the assistant message up front: its ID keys the stop endpoint and the replay buffer
+        const assistantMessage = await this.create(userId, conversationId, {
+            content: '',
+            role: 'ASSISTANT',
+            parentId: userMessage.id,
+            model: chatModel,
+            status: 'STREAMING',
+            sources,
+        });
+        await quotaService.recordMessage(userId);
 
-        res.write(`data: ${JSON.stringify({ type: 'userMessage', data: userMessage })}\n\n`);
-        res.write(`data: ${JSON.stringify({ type: 'sources', data: sources })}\n\n`);
+        // 9. Open the SSE stream. Events are buffered so a client reconnecting with Last-Event-ID
+        // gets what it missed; if no client is connected for a while, generation is aborted.
+        const stream = generationRegistry.start(assistantMessage.id, userId);
+        setSseHeaders(res);
+        stream.attach(res);
 
-        // 8. Get conversation history
-        const history = await this.getConversationHistory(userId, conversationId);
+        // Send user message and sources first
+        stream.send({ type: 'userMessage', data: userMessage });
+        stream.send({ type: 'assistantMessageStart', data: { id: assistantMessage.id, parentId: userMessage.id, model: chatModel } });
+        stream.send({ type: 'sources', data: sources });
 
         try {
-            // Calculate token usage estimate (before AI call)
-            const historyText = history.map(m => m.content).join('');
-            const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+            const { summary, messages: history } = await conversationSummaryService.applySummary(conversationId, fullHistory);
+            const promptWithSummary = conversationSummaryService.formatForPrompt(systemPrompt, summary);
+
+            // Count prompt tokens with the model's tokenizer and trim history to the context window
+            const contextWindow = await aiModelService.getContextWindow(chatModel);
+            const budget = tokenBudgetService.fitHistory(promptWithSummary, history, { model: chatModel, contextWindow });
             const tokenUsage = {
-                systemPrompt: estimateTokens(systemPrompt),
-                conversationHistory: estimateTokens(historyText),
-                ragContext: estimateTokens(contextText),
+                systemPrompt: budget.systemPromptTokens,
+                memory: tokenBudgetService.count(memoryContext, chatModel),
+                ragContext: tokenBudgetService.count(contextText, chatModel),
+                summary: tokenBudgetService.count(summary ?? '', chatModel),
+                conversationHistory: budget.historyTokens,
+                droppedMessages: budget.droppedMessages,
                 files: availableFiles.length,
-                total: estimateTokens(systemPrompt + historyText)
+                budget: budget.budget,
+                total: budget.totalTokens,
             };
 
             // Send token usage to frontend
-            res.write(`data: ${JSON.stringify({ type: 'tokenUsage', data: tokenUsage })}\n\n`);
-
-            // 9. Stream the AI response
-            const accumulatedContent = await aiService.chatStream(history, res, systemPrompt);
-
-            // Update token usage with response tokens
-            tokenUsage.total += estimateTokens(accumulatedContent);
-
-            // 10. Save AI response
-            const assistantMessage = await this.create(userId, conversationId, {
-                content: accumulatedContent,
-                role: 'ASSISTANT',
+            stream.send({ type: 'tokenUsage', data: tokenUsage });
+
+            // 10. Stream the AI response (aborted by the stop endpoint or when all clients are gone)
+            const completion = await aiService.chatStream(budget.messages, stream, promptWithSummary, chatModel, stream.signal, budget);
+
+            // 11. Validate citation markers and save the (possibly partial) AI response.
+            // Tokens were streamed raw, so the final message carries the cleaned content.
+            const { content: answer, citations } = ragService.resolveCitations(completion.content, retrievalResult.chunks);
+            const savedMessage = await this.finishAssistantMessage(assistantMessage.id, {
+                content: answer,
+                citations,
+                usage: completion.usage,
+                status: completion.stopped ? 'STOPPED' : 'COMPLETED',
             });
 
-            // 11. Send the final saved message with updated token usage
-            res.write(`data: ${JSON.stringify({ type: 'assistantMessage', data: assistantMessage })}\n\n`);
-            res.write(`data: ${JSON.stringify({ type: 'tokenUsageFinal', data: tokenUsage })}\n\n`);
-            res.end();
+            // Prefer the provider's numbers; fall back to our own count if it didn't report usage
+            const completionTokens = completion.usage?.completionTokens ?? tokenBudgetService.count(completion.content, chatModel);
+            const tokenUsageFinal = {
+                ...tokenUsage,
+                prompt: completion.usage?.promptTokens ?? tokenUsage.total,
+                completion: completionTokens,
+                total: completion.usage?.totalTokens ?? tokenUsage.total + completionTokens,
+                reportedByProvider: !!completion.usage,
+            };
 
-            // 12. Extract and save memories (fire-and-forget, after response)
-            this.extractAndSaveMemories(userId, subjectId, conversationId, content, accumulatedContent)
-                .catch(err => console.error('Memory extraction failed:', err));
+            // 12. Send the final saved message with updated token usage
+            stream.send({ type: 'assistantMessage', data: { ...savedMessage, citations, sources } });
+            stream.send({ type: 'tokenUsageFinal', data: tokenUsageFinal });
+
+            // 13. Extract and save memories (complete answers only), and update the rolling summary (fire-and-forget, after response)
+            if (!completion.stopped) {
+                this.extractAndSaveMemories(userId, subjectId, conversationId, content, answer)
+                    .catch(err => console.error('Memory extraction failed:', err));
+            }
+            conversationSummaryService.refresh(conversationId, [...fullHistory, { id: assistantMessage.id, role: 'assistant', content: answer }])
+                .catch(err => console.error('Conversation summary failed:', err));
         } catch (error) {
             console.error('Stream error:', error);
-            res.end();
+            await prisma.message.update({ where: { id: assistantMessage.id }, data: { status: 'FAILED' } })
+                .catch(err => console.error('Failed to mark message as failed:', err));
+        } finally {
+            generationRegistry.finish(assistantMessage.id);
         }
     }
 
+    /**
+     * Reconnect to a streamed assistant reply.
+     * Replays the events after `lastEventId` and follows the live stream if it is still generating;
+     * once the replay buffer has expired, sends the saved message instead.
+     */
+    async resumeStream(userId: string, conversationId: string, messageId: string, lastSequence: number, res: any) {
+        await conversationService.verifyOwnership(userId, conversationId);
+        const message = await this.findMessage(conversationId, messageId);
+
+        if (message.role !== 'ASSISTANT') {
+            throw AppError.badRequest('Only assistant replies can be resumed', 'INVALID_MESSAGE_ROLE');
+        }
+
+        setSseHeaders(res);
+
+        const stream = generationRegistry.get(messageId, userId);
+        if (stream) {
+            stream.attach(res, lastSequence);
+            return;
+        }
+
+        // Nothing buffered (expired, or the server restarted mid-generation)
+        let saved = message;
+        if (message.status === 'STREAMING') {
+            saved = await prisma.message.update({ where: { id: messageId }, data: { status: 'FAILED' } });
+        }
+
+        const sources = await prisma.messageSource.findMany({
+            where: { messageId },
+            select: messageSourceSelect,
+            orderBy: { rank: 'asc' },
+        });
+        const citations = saved.citations ? JSON.parse(saved.citations) as MessageCitation[] : [];
+
+        res.write(`data: ${JSON.stringify({ type: 'assistantMessage', data: { ...saved, citations, sources } })}\n\n`);
+        res.end();
+    }
+
+    /**
+     * Stop a streaming assistant reply. The partial content is saved with status STOPPED
+     * by the request that is streaming it.
+     */
+    async stopGeneration(userId: string, conversationId: string, messageId: string) {
+        await conversationService.verifyOwnership(userId, conversationId);
+        const message = await this.findMessage(conversationId, messageId);
+
+        if (message.role !== 'ASSISTANT' || message.status !== 'STREAMING' || !generationRegistry.stop(messageId, userId)) {
+            throw AppError.conflict('This message is not being generated', 'GENERATION_NOT_ACTIVE');
+        }
+
+        return { id: messageId, stopped: true };
+    }
+
+    /**
+     * Save the final content, citations, usage and status of a streamed assistant message
+     */
+    async finishAssistantMessage(
+        messageId: string,
+        result: { content: string; citations: MessageCitation[]; usage?: LLMUsage; status: MessageStatus }
+    ) {
+        return prisma.message.update({
+            where: { id: messageId },
+            data: {
+                content: result.content,
+                citations: result.citations.length > 0 ? JSON.stringify(result.citations) : null,
+                promptTokens: result.usage?.promptTokens ?? null,
+                completionTokens: result.usage?.completionTokens ?? null,
+                totalTokens: result.usage?.totalTokens ?? null,
+                status: result.status,
+            },
+        });
+    }
+
     /**
      * Extract memories from conversation turn and save them
      * This runs asynchronously after the response is sent
@@ -1,106 +1,210 @@
 import fs from 'fs';
 import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import { AppError } from '../utils';
+import { config } from '../config';
+import { llmProvider } from './llm-provider.service';
+import { quotaService } from './quota.service';
+
+const execFileAsync = promisify(execFile);
+
+// Tesseract runs per page; a stuck process shouldn't hold the job forever
+const TESSERACT_TIMEOUT_MS = 120000;
+
+export interface OcrResult {
+    text: string;
+    engine: string; // e.g. "tesseract" or "vision:<model>"
+    confidence?: number; // 0-100, when the engine reports one
+}
+
+export interface OcrOptions {
+    // Owner of the images: pages are checked against and counted towards their monthly OCR quota
+    userId?: string;
+    // File the images come from: its leading pages already counted by an earlier attempt are free
+    fileId?: string;
+    // Called after each page of a multi-page run
+    onPage?: (page: number, total: number) => void;
+}
 
 /**
- * Service for OCR (Optical Character Recognition) using DeepSeek VL2 vision model
+ * A text recognition backend
  */
-export class OCRService {
-    private apiKey: string;
-    private apiUrl = 'https://openrouter.ai/api/v1/chat/completions';
-    private model = 'google/gemini-2.0-flash-001'; // Vision-capable model
-
-    constructor() {
-        this.apiKey = process.env.OPENROUTER_API_KEY || '';
-        if (!this.apiKey) {
-            console.warn('Warning: OPENROUTER_API_KEY not set for OCRService');
-        }
+export interface OcrEngine {
+    readonly name: string;
+    recognize(imagePath: string): Promise<OcrResult>;
+}
+
+/**
+ * Remote OCR through the configured vision model
+ */
+export class VisionOcrEngine implements OcrEngine {
+    get name(): string {
+        return `vision:${config.visionModel}`;
     }
 
-    /**
-     * Extract text from an image file using vision model
-     */
-    async extractTextFromImage(imagePath: string): Promise<string> {
-        if (!fs.existsSync(imagePath)) {
-            throw AppError.notFound(`Image file not found: ${imagePath}`);
-        }
+    async recognize(imagePath: string): Promise<OcrResult> {
+        // Read image and convert to base64
+        const imageBuffer = fs.readFileSync(imagePath);
+        const base64Image = imageBuffer.toString('base64');
 
-        if (!this.apiKey) {
-            throw AppError.internal('OCR API key not configured');
-        }
+        // Determine MIME type from extension
+        const ext = path.extname(imagePath).toLowerCase();
+        const mimeType = getMimeType(ext);
+
+        const text = await llmProvider.vision(
+            'Extract all the text from this image. Return ONLY the extracted text, maintaining the original structure and formatting as much as possible. Do not add any explanations or commentary.',
+            { mimeType, base64: base64Image },
+            { model: config.visionModel }
+        );
+        return { text, engine: this.name };
+    }
+}
 
+/**
+ * Local OCR with the Tesseract CLI. TSV output gives the text layout and per-word confidence.
+ */
+export class TesseractOcrEngine implements OcrEngine {
+    readonly name = 'tesseract';
+
+    async recognize(imagePath: string): Promise<OcrResult> {
+        let stdout: string;
         try {
-            // Read image and convert to base64
-            const imageBuffer = fs.readFileSync(imagePath);
-            const base64Image = imageBuffer.toString('base64');
-
-            // Determine MIME type from extension
-            const ext = path.extname(imagePath).toLowerCase();
-            const mimeType = this.getMimeType(ext);
-
-            // Call vision API
-            const response = await fetch(this.apiUrl, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.apiKey}`,
-                    'Content-Type': 'application/json',
-                    'HTTP-Referer': process.env.APP_URL || 'http://localhost:3000',
-                    'X-Title': 'Lea4n Learning Platform',
-                },
-                body: JSON.stringify({
-                    model: this.model,
-                    messages: [
-                        {
-                            role: 'user',
-                            content: [
-                                {
-                                    type: 'text',
-                                    text: 'Extract all the text from this image. Return ONLY the extracted text, maintaining the original structure and formatting as much as possible. Do not add any explanations or commentary.'
-                                },
-                                {
-                                    type: 'image_url',
-                                    image_url: {
-                                        url: `data:${mimeType};base64,${base64Image}`
-                                    }
-                                }
-                            ]
-                        }
-                    ],
-                    // No max_tokens limit - let model output as much as needed
-                }),
-            });
-
-            if (!response.ok) {
-                const errorData = await response.json().catch(() => ({})) as any;
-                throw new Error(`OCR API error: ${response.status} - ${JSON.stringify(errorData)}`);
+            ({ stdout } = await execFileAsync(
+                config.tesseractPath,
+                [imagePath, 'stdout', '-l', config.ocrLanguages, 'tsv'],
+                { maxBuffer: 32 * 1024 * 1024, timeout: TESSERACT_TIMEOUT_MS }
+            ));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                throw new Error(`Tesseract not found at "${config.tesseractPath}" (set TESSERACT_PATH)`);
             }
+            throw error;
+        }
 
-            const data = await response.json() as any;
+        return { ...parseTesseractTsv(stdout), engine: this.name };
+    }
+}
 
-            if (!data.choices || !data.choices[0]?.message?.content) {
-                throw new Error('Invalid response from OCR API');
-            }
+/**
+ * Rebuild text from Tesseract TSV rows (lines within a paragraph, blank line between paragraphs)
+ * and compute the character-weighted mean word confidence
+ */
+function parseTesseractTsv(tsv: string): { text: string; confidence: number } {
+    const paragraphs: string[][] = [];
+    let paragraphKey = '';
+    let lineKey = '';
+    let weightedConfidence = 0;
+    let characters = 0;
 
-            return data.choices[0].message.content;
-        } catch (error) {
-            console.error('OCR extraction failed:', error);
-            throw AppError.internal(`Failed to extract text from image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    // Columns: level page_num block_num par_num line_num word_num left top width height conf text
+    for (const row of tsv.split('\n').slice(1)) {
+        const columns = row.split('\t');
+        if (columns.length < 12) continue;
+
+        const word = columns.slice(11).join('\t').trim();
+        const confidence = parseFloat(columns[10]);
+        if (!word || confidence < 0) continue;
+
+        const currentParagraph = columns.slice(1, 4).join(':');
+        const currentLine = columns.slice(1, 5).join(':');
+        if (currentParagraph !== paragraphKey) {
+            paragraphs.push([word]);
+        } else if (currentLine !== lineKey) {
+            paragraphs[paragraphs.length - 1].push(word);
+        } else {
+            const lines = paragraphs[paragraphs.length - 1];
+            lines[lines.length - 1] += ` ${word}`;
         }
+        paragraphKey = currentParagraph;
+        lineKey = currentLine;
+
+        weightedConfidence += confidence * word.length;
+        characters += word.length;
+    }
+
+    return {
+        text: paragraphs.map(lines => lines.join('\n')).join('\n\n'),
+        confidence: characters > 0 ? Math.round(weightedConfidence / characters) : 0,
+    };
+}
+
+/**
+ * Get MIME type from file extension
+ */
+function getMimeType(ext: string): string {
+    const mimeTypes: Record<string, string> = {
+        '.jpg': 'image/jpeg',
+        '.jpeg': 'image/jpeg',
+        '.png': 'image/png',
+        '.gif': 'image/gif',
+        '.webp': 'image/webp',
+        '.bmp': 'image/bmp',
+        '.tiff': 'image/tiff',
+        '.tif': 'image/tiff',
+    };
+    return mimeTypes[ext] || 'image/png';
+}
+
+/**
+ * Service for OCR (Optical Character Recognition).
+ * `OCR_MODE` picks the engine: the remote vision model, local Tesseract, or Tesseract
+ * with the vision model as a fallback for pages it reads with low confidence.
+ */
+export class OCRService {
+    private remote: OcrEngine = new VisionOcrEngine();
+    private local: OcrEngine = new TesseractOcrEngine();
+
+    /**
+     * Recognize the text of an image with the configured engine(s)
+     */
+    async recognize(imagePath: string, options: OcrOptions = {}): Promise<OcrResult> {
+        const [result] = await this.extractPages([imagePath], options);
+        return result;
     }
 
     /**
-     * Extract text from multiple images (e.g., PDF pages)
+     * Extract text from an image file
      */
-    async extractTextFromImages(imagePaths: string[]): Promise<string> {
-        const results: string[] = [];
+    async extractTextFromImage(imagePath: string): Promise<string> {
+        return (await this.recognize(imagePath)).text;
+    }
+
+    /**
+     * Extract text from multiple images (e.g., PDF pages), one entry per image.
+     * With a user, the whole run must fit in their remaining OCR quota.
+     */
+    async extractPages(imagePaths: string[], options: OcrOptions = {}): Promise<OcrResult[]> {
+        // Pages are recognized in the same order on every attempt, so the first ones counted are these
+        const alreadyCounted = options.userId && options.fileId
+            ? await quotaService.ocrPagesCounted(options.fileId)
+            : 0;
+        if (options.userId && imagePaths.length > alreadyCounted) {
+            await quotaService.assertOcrPages(options.userId, imagePaths.length - alreadyCounted);
+        }
+
+        const results: OcrResult[] = [];
 
         for (let i = 0; i < imagePaths.length; i++) {
-            console.log(`OCR: Processing image ${i + 1}/${imagePaths.length}`);
-            const text = await this.extractTextFromImage(imagePaths[i]);
-            results.push(`--- Page ${i + 1} ---\n${text}`);
+            if (imagePaths.length > 1) {
+                console.log(`OCR: Processing image ${i + 1}/${imagePaths.length}`);
+            }
+            results.push(await this.recognizeImage(imagePaths[i]));
+            if (options.userId && i >= alreadyCounted) {
+                await quotaService.recordOcrPages(options.userId, 1, options.fileId);
+            }
+            options.onPage?.(i + 1, imagePaths.length);
         }
 
-        return results.join('\n\n');
+        return results;
+    }
+
+    /**
+     * Extract text from multiple images (e.g., PDF pages)
+     */
+    async extractTextFromImages(imagePaths: string[]): Promise<string> {
+        const pages = await this.extractPages(imagePaths);
+        return pages.map((page, i) => `--- Page ${i + 1} ---\n${page.text}`).join('\n\n');
     }
 
     /**
@@ -111,20 +215,43 @@ export class OCRService {
     }
 
     /**
-     * Get MIME type from file extension
+     * Run the engine(s) selected by OCR_MODE on one image
      */
-    private getMimeType(ext: string): string {
-        const mimeTypes: Record<string, string> = {
-            '.jpg': 'image/jpeg',
-            '.jpeg': 'image/jpeg',
-            '.png': 'image/png',
-            '.gif': 'image/gif',
-            '.webp': 'image/webp',
-            '.bmp': 'image/bmp',
-            '.tiff': 'image/tiff',
-            '.tif': 'image/tiff',
-        };
-        return mimeTypes[ext] || 'image/png';
+    private async recognizeImage(imagePath: string): Promise<OcrResult> {
+        if (!fs.existsSync(imagePath)) {
+            throw AppError.notFound(`Image file not found: ${imagePath}`);
+        }
+
+        try {
+            switch (config.ocrMode) {
+                case 'local':
+                    return await this.local.recognize(imagePath);
+                case 'local-then-remote':
+                    return await this.recognizeWithFallback(imagePath);
+                default:
+                    return await this.remote.recognize(imagePath);
+            }
+        } catch (error) {
+            console.error('OCR extraction failed:', error);
+            throw AppError.internal(`Failed to extract text from image: ${error instanceof Error ? error.message : 'Unknown error'}`, 'OCR_FAILED');
+        }
+    }
+
+    /**
+     * Tesseract first; the vision model when Tesseract fails or isn't confident enough
+     */
+    private async recognizeWithFallback(imagePath: string): Promise<OcrResult> {
+        try {
+            const result = await this.local.recognize(imagePath);
+            if (result.text.trim() && (result.confidence ?? 0) >= config.ocrMinConfidence) {
+                return result;
+            }
+            console.log(`OCR: Local confidence ${result.confidence ?? 0} below ${config.ocrMinConfidence}, using ${this.remote.name}`);
+        } catch (error) {
+            console.warn(`OCR: Local engine failed, using ${this.remote.name}:`, error instanceof Error ? error.message : error);
+        }
+
+        return this.remote.recognize(imagePath);
     }
 }
 
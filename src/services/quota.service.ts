@@ -0,0 +1,246 @@
+import prisma from '../config/database';
+import { AppError } from '../utils';
+import { Prisma, UsageMetric, UserPlan, UserRole } from '@prisma/client';
+
+/**
+ * Limits of a plan (null = unlimited)
+ */
+export interface QuotaLimits {
+    storageBytes: number | null;
+    filesPerSubject: number | null;
+    messagesPerDay: number | null; // Assistant replies generated (send, regenerate, edit)
+    ocrPagesPerMonth: number | null; // Images and scanned PDF pages recognized
+}
+
+const MB = 1024 * 1024;
+
+export const PLAN_LIMITS: Record<UserPlan, QuotaLimits> = {
+    FREE: {
+        storageBytes: 500 * MB,
+        filesPerSubject: 50,
+        messagesPerDay: 100,
+        ocrPagesPerMonth: 100,
+    },
+    PRO: {
+        storageBytes: 5 * 1024 * MB,
+        filesPerSubject: 500,
+        messagesPerDay: 1000,
+        ocrPagesPerMonth: 2000,
+    },
+    UNLIMITED: {
+        storageBytes: null,
+        filesPerSubject: null,
+        messagesPerDay: null,
+        ocrPagesPerMonth: null,
+    },
+};
+
+function quotaExceeded(message: string): AppError {
+    return AppError.forbidden(message, 'QUOTA_EXCEEDED');
+}
+
+function formatBytes(bytes: number): string {
+    return bytes >= 1024 * MB ? `${(bytes / (1024 * MB)).toFixed(1)} GB` : `${Math.round(bytes / MB)} MB`;
+}
+
+/**
+ * Current UTC day as a counter period ("2026-10-19") and when it ends
+ */
+function currentDay(): { period: string; end: Date } {
+    const start = new Date();
+    start.setUTCHours(0, 0, 0, 0);
+    return {
+        period: start.toISOString().slice(0, 10),
+        end: new Date(start.getTime() + 24 * 60 * 60 * 1000),
+    };
+}
+
+/**
+ * Current UTC month as a counter period ("2026-10") and when it ends
+ */
+function currentMonth(): { period: string; end: Date } {
+    const now = new Date();
+    return {
+        period: now.toISOString().slice(0, 7),
+        end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    };
+}
+
+/**
+ * Quota service - plan-based usage limits.
+ *
+ * Checks run before the work they guard, so concurrent requests can overshoot
+ * a limit slightly; the next request is then refused.
+ */
+export class QuotaService {
+    /**
+     * Plan and limits of a user. Superadmins are never limited.
+     */
+    async getLimits(userId: string): Promise<{ plan: UserPlan; limits: QuotaLimits }> {
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { plan: true, role: true },
+        });
+
+        if (!user) {
+            throw AppError.notFound('User not found', 'USER_NOT_FOUND');
+        }
+
+        const plan = user.role === UserRole.SUPERADMIN ? UserPlan.UNLIMITED : user.plan;
+        return { plan, limits: PLAN_LIMITS[plan] };
+    }
+
+    /**
+     * Refuse an upload that would exceed total storage or the subject's file count
+     */
+    async assertCanUpload(userId: string, subjectId: string, fileSizes: number[]): Promise<void> {
+        const { limits } = await this.getLimits(userId);
+
+        if (limits.storageBytes !== null) {
+            const used = await this.storageUsed(userId);
+            const incoming = fileSizes.reduce((sum, size) => sum + size, 0);
+            if (used + incoming > limits.storageBytes) {
+                throw quotaExceeded(
+                    `Storage limit reached: ${formatBytes(used)} of ${formatBytes(limits.storageBytes)} used. Delete files to free up space.`
+                );
+            }
+        }
+
+        if (limits.filesPerSubject !== null) {
+            const count = await prisma.file.count({ where: { userId, subjectId } });
+            if (count + fileSizes.length > limits.filesPerSubject) {
+                throw quotaExceeded(
+                    `A subject can hold at most ${limits.filesPerSubject} files (${count} already uploaded)`
+                );
+            }
+        }
+    }
+
+    /**
+     * Refuse a new assistant reply once the daily message limit is reached
+     */
+    async assertCanSendMessage(userId: string): Promise<void> {
+        const { limits } = await this.getLimits(userId);
+        if (limits.messagesPerDay === null) return;
+
+        const used = await this.messagesToday(userId);
+        if (used >= limits.messagesPerDay) {
+            throw quotaExceeded(`Daily message limit reached (${limits.messagesPerDay}). It resets at midnight UTC.`);
+        }
+    }
+
+    /**
+     * Refuse OCR of `pages` pages if it would exceed the monthly OCR allowance
+     */
+    async assertOcrPages(userId: string, pages: number): Promise<void> {
+        const { limits } = await this.getLimits(userId);
+        if (limits.ocrPagesPerMonth === null) return;
+
+        const used = await this.ocrPagesThisMonth(userId);
+        if (used + pages > limits.ocrPagesPerMonth) {
+            throw quotaExceeded(
+                `Monthly OCR limit reached: ${used} of ${limits.ocrPagesPerMonth} pages used, ${pages} more needed`
+            );
+        }
+    }
+
+    /**
+     * Count an assistant reply towards the current day
+     */
+    async recordMessage(userId: string): Promise<void> {
+        await this.increment(userId, UsageMetric.MESSAGES, currentDay().period, 1);
+    }
+
+    /**
+     * Pages of a file already counted towards its owner's OCR quota (by an earlier processing attempt)
+     */
+    async ocrPagesCounted(fileId: string): Promise<number> {
+        const file = await prisma.file.findUnique({ where: { id: fileId }, select: { ocrPages: true } });
+        return file?.ocrPages ?? 0;
+    }
+
+    /**
+     * Count pages recognized by OCR towards the current month, and towards the file they belong to
+     */
+    async recordOcrPages(userId: string, pages: number, fileId?: string): Promise<void> {
+        await prisma.$transaction(async (tx) => {
+            await this.increment(userId, UsageMetric.OCR_PAGES, currentMonth().period, pages, tx);
+            if (fileId) {
+                await tx.file.update({ where: { id: fileId }, data: { ocrPages: { increment: pages } } });
+            }
+        });
+    }
+
+    /**
+     * Current usage against every limit
+     */
+    async getUsage(userId: string) {
+        const { plan, limits } = await this.getLimits(userId);
+        const day = currentDay();
+        const month = currentMonth();
+
+        const [storageBytes, messages, ocrPages, subjects] = await Promise.all([
+            this.storageUsed(userId),
+            this.messagesToday(userId),
+            this.ocrPagesThisMonth(userId),
+            prisma.subject.findMany({
+                where: { userId },
+                select: { id: true, title: true, _count: { select: { files: true } } },
+                orderBy: { createdAt: 'asc' },
+            }),
+        ]);
+
+        return {
+            plan,
+            storage: { usedBytes: storageBytes, limitBytes: limits.storageBytes },
+            messages: { usedToday: messages, limitPerDay: limits.messagesPerDay, resetsAt: day.end },
+            ocrPages: { usedThisMonth: ocrPages, limitPerMonth: limits.ocrPagesPerMonth, resetsAt: month.end },
+            filesPerSubject: {
+                limit: limits.filesPerSubject,
+                subjects: subjects.map(subject => ({
+                    subjectId: subject.id,
+                    title: subject.title,
+                    files: subject._count.files,
+                })),
+            },
+        };
+    }
+
+    private async storageUsed(userId: string): Promise<number> {
+        const result = await prisma.file.aggregate({ where: { userId }, _sum: { size: true } });
+        return result._sum.size ?? 0;
+    }
+
+    private async messagesToday(userId: string): Promise<number> {
+        return this.counted(userId, UsageMetric.MESSAGES, currentDay().period);
+    }
+
+    private async ocrPagesThisMonth(userId: string): Promise<number> {
+        return this.counted(userId, UsageMetric.OCR_PAGES, currentMonth().period);
+    }
+
+    private async counted(userId: string, metric: UsageMetric, period: string): Promise<number> {
+        const counter = await prisma.usageCounter.findUnique({
+            where: { userId_metric_period: { userId, metric, period } },
+            select: { count: true },
+        });
+        return counter?.count ?? 0;
+    }
+
+    private async increment(
+        userId: string,
+        metric: UsageMetric,
+        period: string,
+        count: number,
+        tx: Prisma.TransactionClient = prisma
+    ): Promise<void> {
+        await tx.usageCounter.upsert({
+            where: { userId_metric_period: { userId, metric, period } },
+            create: { userId, metric, period, count },
+            update: { count: { increment: count } },
+        });
+    }
+}
+
+// Export singleton instance
+export const quotaService = new QuotaService();
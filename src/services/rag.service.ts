@@ -1,101 +1,166 @@
 import prisma from '../config/database';
 import { embeddingService } from './embedding.service';
+import { vectorStore } from './vector-store.service';
+import { lexicalIndexService } from './lexical-index.service';
+import { config } from '../config';
 import { FileTag } from '@prisma/client';
 
 export interface RetrievedChunk {
+    chunkId: string;
     content: string;
     fileId: string;
     fileName: string;
     fileTag?: FileTag | null;
-    similarity: number;
+    similarity: number; // Cosine similarity to the query (0 if only matched lexically)
+    lexicalScore: number; // BM25 score (0 if only matched semantically)
+    score: number; // Fused rank score in [0, 1]
     chunkIndex: number;
+    startPage?: number | null;
+    endPage?: number | null;
     metadata?: any;
 }
 
+export interface MessageCitation {
+    marker: number;
+    chunkId: string;
+    fileId: string;
+}
+
+export interface CitationResult {
+    content: string;
+    citations: MessageCitation[];
+}
+
+export interface RetrievalSource {
+    chunkId: string;
+    rank: number;
+    fileName: string;
+    fileId: string;
+    tag?: FileTag | null;
+    similarity: number;
+    score: number;
+    startPage?: number | null;
+    endPage?: number | null;
+    sectionPath?: string | null;
+}
+
 export interface RetrievalResult {
     chunks: RetrievedChunk[];
     queryEmbedding: number[];
 }
 
+export interface RetrievalOptions {
+    subjectId: string;
+    fileTags?: FileTag[];
+    topK?: number;
+    minSimilarity?: number; // Minimum cosine similarity of embedding matches
+    minLexicalRelevance?: number; // Minimum normalized BM25 relevance (0-1) of keyword matches
+    lexicalWeight?: number; // 0 = embeddings only, 1 = BM25 only
+}
+
+// Inline citation marker emitted by the model, e.g. "[^2]"
+const CITATION_MARKER = /[ \t]*\[\^(\d+)\]/g;
+
+// Reciprocal rank fusion constant (Cormack et al.); dampens the advantage of top ranks
+const RRF_K = 60;
+
+// Keyword matches must cover this share of the query's attainable BM25 score. Low on purpose:
+// a question usually has one or two distinctive terms among many common words.
+const DEFAULT_MIN_LEXICAL_RELEVANCE = 0.1;
+
 /**
  * Service for Retrieval-Augmented Generation
  */
 export class RAGService {
     /**
-     * Retrieve relevant context chunks for a query
+     * Retrieve relevant context chunks for a query.
+     * Combines embedding similarity and BM25 keyword ranking with reciprocal rank fusion.
      */
     async retrieve(
         userId: string,
         query: string,
-        options: {
-            subjectId: string;
-            fileTags?: FileTag[];
-            topK?: number;
-            minSimilarity?: number;
-        }
+        options: RetrievalOptions
     ): Promise<RetrievalResult> {
-        const { subjectId, fileTags, topK = 5, minSimilarity = 0.3 } = options;
+        const {
+            subjectId,
+            fileTags,
+            topK = 5,
+            minSimilarity = 0.3,
+            minLexicalRelevance = DEFAULT_MIN_LEXICAL_RELEVANCE,
+            lexicalWeight = config.ragLexicalWeight
+        } = options;
+        const weight = Math.min(Math.max(lexicalWeight, 0), 1);
 
         console.log(`RAG: Retrieving for user ${userId}, subject ${subjectId}, query: "${query.substring(0, 50)}..."`);
 
         // 1. Generate embedding for the query
         const queryEmbedding = await embeddingService.generate(query);
 
-        // 2. Fetch all embeddings for the subject (and optionally filter by tags)
-        const embeddingsData = await (prisma as any).fileEmbedding.findMany({
+        // 2. Rank candidates semantically and lexically.
+        // Over-fetch so tag filtering and the score threshold still leave topK results.
+        const candidateCount = Math.max(topK * (fileTags && fileTags.length > 0 ? 8 : 4), 20);
+        const [vectorCandidates, lexicalCandidates] = await Promise.all([
+            weight < 1 ? vectorStore.search(subjectId, queryEmbedding, candidateCount) : Promise.resolve([]),
+            weight > 0 ? lexicalIndexService.search(subjectId, query, candidateCount) : Promise.resolve([]),
+        ]);
+
+        // Thresholds apply to each retriever's own relevance: fused scores only reflect ranks
+        const vectorHits = vectorCandidates.filter(hit => hit.similarity >= minSimilarity);
+        const lexicalHits = lexicalCandidates.filter(hit => hit.relevance >= minLexicalRelevance);
+
+        const similarityByChunk = new Map(vectorHits.map(hit => [hit.chunkId, hit.similarity]));
+        const lexicalByChunk = new Map(lexicalHits.map(hit => [hit.chunkId, hit.score]));
+        const fusedScores = this.fuseRankings([
+            { chunkIds: vectorHits.map(hit => hit.chunkId), weight: 1 - weight },
+            { chunkIds: lexicalHits.map(hit => hit.chunkId), weight },
+        ]);
+
+        // 3. Load candidate chunks, enforcing ownership and tag filters in the database
+        const chunksData = fusedScores.size === 0 ? [] : await prisma.fileChunk.findMany({
             where: {
-                chunk: {
-                    file: {
-                        userId,
-                        subjectId,
-                        ...(fileTags && fileTags.length > 0 ? { tag: { in: fileTags } } : {})
-                    }
+                id: { in: Array.from(fusedScores.keys()) },
+                file: {
+                    userId,
+                    subjectId,
+                    ...(fileTags && fileTags.length > 0 ? { tag: { in: fileTags } } : {})
                 }
             },
             include: {
-                chunk: {
-                    include: {
-                        file: {
-                            select: {
-                                id: true,
-                                originalName: true,
-                                tag: true
-                            }
-                        }
+                file: {
+                    select: {
+                        id: true,
+                        originalName: true,
+                        tag: true
                     }
                 }
             }
         });
 
-        // 3. Calculate similarity and rank chunks
-        const rankedChunks = (embeddingsData as any[])
-            .map(item => {
-                const vector = JSON.parse(item.vector) as number[];
-                const similarity = this.cosineSimilarity(queryEmbedding, vector);
-
-                return {
-                    content: item.chunk.content,
-                    fileId: item.chunk.fileId,
-                    fileName: item.chunk.file.originalName,
-                    fileTag: item.chunk.file.tag,
-                    similarity,
-                    chunkIndex: item.chunk.chunkIndex,
-                    metadata: item.chunk.metadata ? JSON.parse(item.chunk.metadata) : {}
-                };
-            })
-            .sort((a, b) => b.similarity - a.similarity);
-
-        // Debug: Log top similarity scores
+        const rankedChunks = chunksData
+            .map(chunk => ({
+                chunkId: chunk.id,
+                content: chunk.content,
+                fileId: chunk.fileId,
+                fileName: chunk.file.originalName,
+                fileTag: chunk.file.tag,
+                similarity: similarityByChunk.get(chunk.id) ?? 0,
+                lexicalScore: lexicalByChunk.get(chunk.id) ?? 0,
+                score: fusedScores.get(chunk.id) ?? 0,
+                chunkIndex: chunk.chunkIndex,
+                startPage: chunk.startPage,
+                endPage: chunk.endPage,
+                metadata: chunk.metadata ? JSON.parse(chunk.metadata) : {}
+            }))
+            .sort((a, b) => b.score - a.score);
+
+        // Debug: Log top fused scores
         if (rankedChunks.length > 0) {
-            console.log(`RAG: Top 5 similarity scores: ${rankedChunks.slice(0, 5).map(c => c.similarity.toFixed(4)).join(', ')}`);
+            console.log(`RAG: Top 5 fused scores: ${rankedChunks.slice(0, 5).map(c => c.score.toFixed(4)).join(', ')}`);
         }
 
-        // Filter by minimum similarity
-        const filteredChunks = rankedChunks
-            .filter(chunk => chunk.similarity >= minSimilarity)
-            .slice(0, topK);
+        const filteredChunks = rankedChunks.slice(0, topK);
 
-        console.log(`RAG: Found ${embeddingsData.length} embeddings, ${filteredChunks.length} relevant chunks after filtering`);
+        console.log(`RAG: ${vectorHits.length}/${vectorCandidates.length} vector + ${lexicalHits.length}/${lexicalCandidates.length} lexical candidates above threshold, ${filteredChunks.length} relevant chunks after filtering`);
 
         return {
             chunks: filteredChunks,
@@ -104,21 +169,23 @@ export class RAGService {
     }
 
     /**
-     * Calculate cosine similarity between two vectors
+     * Weighted reciprocal rank fusion.
+     * Scores are scaled so a chunk ranked first by every retriever scores 1.
      */
-    private cosineSimilarity(vecA: number[], vecB: number[]): number {
-        let dotProduct = 0;
-        let normA = 0;
-        let normB = 0;
-
-        for (let i = 0; i < vecA.length; i++) {
-            dotProduct += vecA[i] * vecB[i];
-            normA += vecA[i] * vecA[i];
-            normB += vecB[i] * vecB[i];
+    private fuseRankings(rankings: Array<{ chunkIds: string[]; weight: number }>): Map<string, number> {
+        const totalWeight = rankings.reduce((sum, r) => sum + r.weight, 0) || 1;
+        const scores = new Map<string, number>();
+
+        for (const { chunkIds, weight } of rankings) {
+            if (weight <= 0) continue;
+
+            chunkIds.forEach((chunkId, rank) => {
+                const contribution = (weight / totalWeight) * (RRF_K + 1) / (RRF_K + rank + 1);
+                scores.set(chunkId, (scores.get(chunkId) || 0) + contribution);
+            });
         }
 
-        const similarity = dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-        return isNaN(similarity) ? 0 : similarity;
+        return scores;
     }
 
     /**
@@ -128,10 +195,79 @@ export class RAGService {
         if (chunks.length === 0) return 'No relevant information found in study materials.';
 
         return chunks.map((chunk, i) => {
-            const source = `Source ${i + 1}: ${chunk.fileName}${chunk.fileTag ? ` (${chunk.fileTag})` : ''}`;
+            const pages = this.formatPageRange(chunk.startPage, chunk.endPage);
+            const section = this.sectionPath(chunk);
+            const source = `[^${i + 1}] ${chunk.fileName}${chunk.fileTag ? ` (${chunk.fileTag})` : ''}${pages ? `, ${pages}` : ''}${section ? ` - ${section}` : ''}`;
             return `--- ${source} ---\n${chunk.content}`;
         }).join('\n\n');
     }
+
+    /**
+     * Validate the [^N] markers in a generated answer against the chunks that were in its context.
+     * Markers that don't point at a retrieved chunk are hallucinated and stripped from the text.
+     */
+    resolveCitations(content: string, chunks: RetrievedChunk[]): CitationResult {
+        const citations = new Map<number, MessageCitation>();
+        let stripped = 0;
+
+        const cleaned = content.replace(CITATION_MARKER, (match, digits: string) => {
+            const marker = parseInt(digits, 10);
+            const chunk = chunks[marker - 1];
+
+            if (!chunk) {
+                stripped++;
+                return '';
+            }
+
+            if (!citations.has(marker)) {
+                citations.set(marker, { marker, chunkId: chunk.chunkId, fileId: chunk.fileId });
+            }
+            return match;
+        });
+
+        if (stripped > 0) {
+            console.log(`RAG: Stripped ${stripped} citation marker(s) with no matching source`);
+        }
+
+        return {
+            content: cleaned,
+            citations: Array.from(citations.values()).sort((a, b) => a.marker - b.marker)
+        };
+    }
+
+    /**
+     * Map retrieved chunks to the `sources` payload sent to clients
+     */
+    toSources(chunks: RetrievedChunk[]): RetrievalSource[] {
+        return chunks.map((chunk, i) => ({
+            chunkId: chunk.chunkId,
+            rank: i + 1,
+            fileName: chunk.fileName,
+            fileId: chunk.fileId,
+            tag: chunk.fileTag,
+            similarity: chunk.similarity,
+            score: chunk.score,
+            startPage: chunk.startPage ?? null,
+            endPage: chunk.endPage ?? null,
+            sectionPath: this.sectionPath(chunk)
+        }));
+    }
+
+    /**
+     * Heading path of the section a chunk was cut from, e.g. "Chapter 3 > Limits > Squeeze theorem"
+     */
+    sectionPath(chunk: RetrievedChunk): string | null {
+        return typeof chunk.metadata?.sectionPath === 'string' ? chunk.metadata.sectionPath : null;
+    }
+
+    /**
+     * Human-readable page label, e.g. "p. 4" or "pp. 4-5"
+     */
+    private formatPageRange(startPage?: number | null, endPage?: number | null): string {
+        if (!startPage) return '';
+        if (!endPage || endPage === startPage) return `p. ${startPage}`;
+        return `pp. ${startPage}-${endPage}`;
+    }
 }
 
 export const ragService = new RAGService();
@@ -0,0 +1,187 @@
+/**
+ * Rate limit stores
+ * Token buckets behind one interface, so limits can live in process memory (a single
+ * instance) or in the database (shared by every instance). Selected through
+ * `config.rateLimitStore`.
+ */
+
+import prisma from '../config/database';
+import { config } from '../config';
+
+/**
+ * A bucket holds `capacity` tokens and refills them evenly over `refillMs`.
+ * Each request takes one token; a full bucket allows a burst of `capacity` requests.
+ */
+export interface TokenBucket {
+    capacity: number;
+    refillMs: number;
+}
+
+export interface BucketState {
+    allowed: boolean;
+    remaining: number; // Whole tokens left after this request
+    resetAt: Date; // When the next token is available (if none are left), else when the bucket is full again
+}
+
+export interface RateLimitStore {
+    readonly name: string;
+
+    /**
+     * Take a token from the bucket at `key`, refilling it first for the time elapsed
+     */
+    take(key: string, bucket: TokenBucket): Promise<BucketState>;
+
+    /**
+     * Give a token back (e.g. for a request that shouldn't have counted)
+     */
+    refund(key: string, bucket: TokenBucket): Promise<void>;
+
+    /**
+     * Forget a bucket, as if it were full
+     */
+    reset(key: string): Promise<void>;
+}
+
+// How often stale buckets are dropped
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Database rows idle this long are full whatever their policy, and can be dropped
+const DATABASE_BUCKET_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Refill a bucket for the time since its last update and take a token if one is available
+ */
+function takeToken(
+    current: { tokens: number; updatedAt: number } | undefined,
+    bucket: TokenBucket,
+    now: number
+): { tokens: number; state: BucketState } {
+    const ratePerMs = bucket.capacity / bucket.refillMs;
+    let tokens = current
+        ? Math.min(bucket.capacity, current.tokens + (now - current.updatedAt) * ratePerMs)
+        : bucket.capacity;
+
+    const allowed = tokens >= 1;
+    if (allowed) tokens -= 1;
+
+    const remaining = Math.floor(tokens);
+    const waitMs = remaining === 0
+        ? (1 - (tokens - remaining)) / ratePerMs
+        : (bucket.capacity - tokens) / ratePerMs;
+
+    return {
+        tokens,
+        state: { allowed, remaining, resetAt: new Date(now + Math.ceil(waitMs)) },
+    };
+}
+
+/**
+ * Buckets in process memory. Each API instance enforces its own limits.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    readonly name = 'memory';
+    private buckets = new Map<string, { tokens: number; updatedAt: number; refillMs: number }>();
+
+    constructor() {
+        setInterval(() => this.prune(), PRUNE_INTERVAL_MS).unref();
+    }
+
+    async take(key: string, bucket: TokenBucket): Promise<BucketState> {
+        const now = Date.now();
+        const { tokens, state } = takeToken(this.buckets.get(key), bucket, now);
+        this.buckets.set(key, { tokens, updatedAt: now, refillMs: bucket.refillMs });
+        return state;
+    }
+
+    async refund(key: string, bucket: TokenBucket): Promise<void> {
+        const current = this.buckets.get(key);
+        if (current) {
+            current.tokens = Math.min(bucket.capacity, current.tokens + 1);
+        }
+    }
+
+    async reset(key: string): Promise<void> {
+        this.buckets.delete(key);
+    }
+
+    /**
+     * Drop buckets that have refilled completely
+     */
+    private prune(): void {
+        const now = Date.now();
+        for (const [key, entry] of this.buckets) {
+            if (now - entry.updatedAt >= entry.refillMs) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+}
+
+/**
+ * Buckets in the rate_limit_buckets table. Each take locks the bucket's row,
+ * so concurrent requests on any instance can't spend the same token twice.
+ */
+export class DatabaseRateLimitStore implements RateLimitStore {
+    readonly name = 'database';
+
+    constructor() {
+        setInterval(() => {
+            this.prune().catch(error => console.error('RateLimit: Failed to prune buckets:', error));
+        }, PRUNE_INTERVAL_MS).unref();
+    }
+
+    async take(key: string, bucket: TokenBucket): Promise<BucketState> {
+        return prisma.$transaction(async (tx) => {
+            const now = new Date();
+
+            // A new bucket starts full, which takeToken reads as "no refill needed"
+            await tx.$executeRaw`
+                INSERT IGNORE INTO rate_limit_buckets (id, tokens, updatedAt)
+                VALUES (${key}, ${bucket.capacity}, ${now})`;
+            const [row] = await tx.$queryRaw<{ tokens: number; updatedAt: Date }[]>`
+                SELECT tokens, updatedAt FROM rate_limit_buckets WHERE id = ${key} FOR UPDATE`;
+
+            const { tokens, state } = takeToken(
+                { tokens: Number(row.tokens), updatedAt: row.updatedAt.getTime() },
+                bucket,
+                now.getTime()
+            );
+
+            await tx.rateLimitBucket.update({
+                where: { id: key },
+                data: { tokens, updatedAt: now },
+            });
+            return state;
+        });
+    }
+
+    async refund(key: string, bucket: TokenBucket): Promise<void> {
+        await prisma.$executeRaw`
+            UPDATE rate_limit_buckets SET tokens = LEAST(tokens + 1, ${bucket.capacity}) WHERE id = ${key}`;
+    }
+
+    async reset(key: string): Promise<void> {
+        await prisma.rateLimitBucket.deleteMany({ where: { id: key } });
+    }
+
+    private async prune(): Promise<void> {
+        await prisma.rateLimitBucket.deleteMany({
+            where: { updatedAt: { lt: new Date(Date.now() - DATABASE_BUCKET_TTL_MS) } },
+        });
+    }
+}
+
+/**
+ * Build the store selected in config
+ */
+export function createRateLimitStore(): RateLimitStore {
+    switch (config.rateLimitStore) {
+        case 'database':
+            return new DatabaseRateLimitStore();
+        case 'memory':
+        default:
+            return new MemoryRateLimitStore();
+    }
+}
+
+export const rateLimitStore = createRateLimitStore();
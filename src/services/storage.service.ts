@@ -0,0 +1,234 @@
+/**
+ * Storage driver abstraction
+ * Uploaded files live behind one interface so upload, download, delete and text extraction
+ * don't depend on where bytes are kept. Selected through `config.storageDriver`:
+ * the local disk (a single volume) or any S3-compatible service (AWS, MinIO, R2...).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+    DeleteObjectCommand,
+    GetObjectCommand,
+    HeadObjectCommand,
+    PutObjectCommand,
+    S3Client,
+} from '@aws-sdk/client-s3';
+import { config } from '../config';
+import { AppError } from '../utils';
+
+export interface StoredObjectInfo {
+    size: number;
+}
+
+/**
+ * Inclusive byte range, as in an HTTP Range header
+ */
+export interface ByteRange {
+    start: number;
+    end: number;
+}
+
+export interface StorageDriver {
+    readonly name: string;
+
+    /**
+     * Store a local file under `key`. The source file is consumed (moved or removed).
+     */
+    put(key: string, sourcePath: string, contentType: string): Promise<void>;
+
+    /**
+     * Size of a stored object, or null if it doesn't exist
+     */
+    stat(key: string): Promise<StoredObjectInfo | null>;
+
+    /**
+     * Read a stored object, optionally only a byte range
+     */
+    createReadStream(key: string, range?: ByteRange): Promise<Readable>;
+
+    /**
+     * Remove a stored object (no-op if it doesn't exist)
+     */
+    delete(key: string): Promise<void>;
+
+    /**
+     * Run `fn` with a path to the object on the local filesystem, for tools that only read
+     * files (pdf2pic, Tesseract...). Remote drivers download a temporary copy.
+     */
+    withLocalFile<T>(key: string, fn: (localPath: string) => Promise<T>): Promise<T>;
+}
+
+function missingObject(key: string): AppError {
+    return AppError.notFound(`File not found in storage: ${key}`, 'SOURCE_FILE_MISSING');
+}
+
+/**
+ * Files in a directory on local disk (UPLOADS_DIR)
+ */
+export class LocalStorageDriver implements StorageDriver {
+    readonly name = 'local';
+
+    constructor(private root: string) {
+        fs.mkdirSync(root, { recursive: true });
+    }
+
+    async put(key: string, sourcePath: string): Promise<void> {
+        const destination = this.resolve(key);
+        try {
+            await fs.promises.rename(sourcePath, destination);
+        } catch (error) {
+            // The staging directory may be on another device
+            if ((error as NodeJS.ErrnoException).code !== 'EXDEV') throw error;
+            await fs.promises.copyFile(sourcePath, destination);
+            await fs.promises.unlink(sourcePath);
+        }
+    }
+
+    async stat(key: string): Promise<StoredObjectInfo | null> {
+        try {
+            const stats = await fs.promises.stat(this.resolve(key));
+            return { size: stats.size };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+        if (!(await this.stat(key))) throw missingObject(key);
+        return fs.createReadStream(this.resolve(key), range);
+    }
+
+    async delete(key: string): Promise<void> {
+        try {
+            await fs.promises.unlink(this.resolve(key));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        }
+    }
+
+    async withLocalFile<T>(key: string, fn: (localPath: string) => Promise<T>): Promise<T> {
+        if (!(await this.stat(key))) throw missingObject(key);
+        return fn(this.resolve(key));
+    }
+
+    /**
+     * Keys are file names; older records hold the absolute path they were written to
+     */
+    private resolve(key: string): string {
+        return path.join(this.root, path.basename(key));
+    }
+}
+
+/**
+ * Objects in an S3-compatible bucket. Works against a local MinIO with
+ * S3_ENDPOINT=http://localhost:9000 and S3_FORCE_PATH_STYLE=true.
+ */
+export class S3StorageDriver implements StorageDriver {
+    readonly name = 's3';
+    private client: S3Client;
+
+    constructor(
+        private bucket: string,
+        private prefix: string,
+        private tempDir: string
+    ) {
+        if (!bucket) {
+            throw new Error('S3_BUCKET is required when STORAGE_DRIVER is "s3"');
+        }
+
+        this.client = new S3Client({
+            region: config.s3Region,
+            endpoint: config.s3Endpoint || undefined,
+            forcePathStyle: config.s3ForcePathStyle,
+            // Without explicit keys the SDK's default chain applies (env, shared config, instance role)
+            credentials: config.s3AccessKeyId
+                ? { accessKeyId: config.s3AccessKeyId, secretAccessKey: config.s3SecretAccessKey }
+                : undefined,
+        });
+    }
+
+    async put(key: string, sourcePath: string, contentType: string): Promise<void> {
+        const { size } = await fs.promises.stat(sourcePath);
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: this.objectKey(key),
+            Body: fs.createReadStream(sourcePath),
+            ContentLength: size,
+            ContentType: contentType,
+        }));
+        await fs.promises.unlink(sourcePath);
+    }
+
+    async stat(key: string): Promise<StoredObjectInfo | null> {
+        try {
+            const head = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+            return { size: head.ContentLength ?? 0 };
+        } catch (error) {
+            if (this.isNotFound(error)) return null;
+            throw error;
+        }
+    }
+
+    async createReadStream(key: string, range?: ByteRange): Promise<Readable> {
+        try {
+            const object = await this.client.send(new GetObjectCommand({
+                Bucket: this.bucket,
+                Key: this.objectKey(key),
+                Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+            }));
+            return object.Body as Readable;
+        } catch (error) {
+            if (this.isNotFound(error)) throw missingObject(key);
+            throw error;
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+    }
+
+    async withLocalFile<T>(key: string, fn: (localPath: string) => Promise<T>): Promise<T> {
+        // Keep the extension: some extractors look at it (e.g. OCR picks the image type from it)
+        const localPath = path.join(
+            this.tempDir,
+            `${crypto.randomUUID()}${path.extname(key)}`
+        );
+
+        await fs.promises.mkdir(this.tempDir, { recursive: true });
+        try {
+            await pipeline(await this.createReadStream(key), fs.createWriteStream(localPath));
+            return await fn(localPath);
+        } finally {
+            await fs.promises.rm(localPath, { force: true });
+        }
+    }
+
+    private objectKey(key: string): string {
+        return `${this.prefix}${path.basename(key)}`;
+    }
+
+    private isNotFound(error: unknown): boolean {
+        const e = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+        return e.name === 'NotFound' || e.name === 'NoSuchKey' || e.$metadata?.httpStatusCode === 404;
+    }
+}
+
+/**
+ * Build the driver selected in config
+ */
+export function createStorageDriver(): StorageDriver {
+    switch (config.storageDriver) {
+        case 's3':
+            return new S3StorageDriver(config.s3Bucket, config.s3Prefix, config.uploadTempDir);
+        case 'local':
+        default:
+            return new LocalStorageDriver(config.uploadsDir);
+    }
+}
+
+export const storage = createStorageDriver();
@@ -1,14 +1,19 @@
 import prisma from '../config/database';
 import { AppError } from '../utils';
+import { vectorStore } from './vector-store.service';
+import { lexicalIndexService } from './lexical-index.service';
+import { aiModelService } from './ai-model.service';
 
 export interface CreateSubjectInput {
     title: string;
     description?: string;
+    aiModel?: string | null;
 }
 
 export interface UpdateSubjectInput {
     title?: string;
     description?: string;
+    aiModel?: string | null;
 }
 
 export interface SubjectListOptions {
@@ -26,10 +31,15 @@ export class SubjectService {
      * Create a new subject for a user
      */
     async create(userId: string, input: CreateSubjectInput) {
+        if (input.aiModel) {
+            await aiModelService.assertAllowed(input.aiModel);
+        }
+
         const subject = await prisma.subject.create({
             data: {
                 title: input.title,
                 description: input.description,
+                aiModel: input.aiModel ?? null,
                 userId,
             },
             include: {
@@ -115,6 +125,10 @@ export class SubjectService {
         // First verify ownership
         await this.verifyOwnership(userId, subjectId);
 
+        if (input.aiModel) {
+            await aiModelService.assertAllowed(input.aiModel);
+        }
+
         const subject = await prisma.subject.update({
             where: { id: subjectId },
             data: input,
@@ -139,6 +153,10 @@ export class SubjectService {
         await prisma.subject.delete({
             where: { id: subjectId },
         });
+
+        // Cascade removed the subject's chunks, drop its indexes too
+        await vectorStore.removeSubject(subjectId);
+        lexicalIndexService.removeSubject(subjectId);
     }
 
     /**
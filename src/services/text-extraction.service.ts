@@ -1,19 +1,56 @@
 import fs from 'fs';
 import path from 'path';
 import mammoth from 'mammoth';
+import JSZip from 'jszip';
 import { fromPath } from 'pdf2pic';
 import { AppError } from '../utils';
+import { config } from '../config';
+import { decodeEntities, elementTexts, htmlToText, tagAttributes } from '../utils/markup';
+import { DOCX_MIME_TYPE, PPTX_MIME_TYPE, XLSX_MIME_TYPE } from '../config/upload';
 import { ocrService } from './ocr.service';
 
 // Minimum characters to consider a PDF has enough text
 const MIN_TEXT_THRESHOLD = 100;
 
-interface ExtractionResult {
+// Spreadsheet rows per paragraph; each paragraph repeats the header row so chunks stay readable
+const SPREADSHEET_ROWS_PER_BLOCK = 20;
+
+// Built-in number formats that display a date or time (ECMA-376 18.8.30)
+const SPREADSHEET_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// PDF lines set this much larger than the body text are treated as headings
+const PDF_HEADING_SIZE_RATIO = 1.15;
+const PDF_HEADING_MAX_LENGTH = 120;
+const PDF_HEADING_LEVELS = 3;
+
+// Decompressed size allowed for all the parts of an Office document together (zip bomb guard)
+const OFFICE_MAX_UNCOMPRESSED_BYTES = 200 * 1024 * 1024;
+
+export interface ExtractedPage {
+    pageNumber: number;
+    content: string;
+}
+
+export interface ExtractionResult {
     text: string;
-    pages?: { pageNumber: number; content: string }[];
+    pages?: ExtractedPage[];
     metadata?: Record<string, any>;
 }
 
+interface PdfLine {
+    text: string;
+    size: number; // Font size of the line's largest text
+}
+
+export interface ExtractionOptions {
+    // Called after each page OCR finishes on a scanned PDF
+    onOcrPage?: (page: number, totalPages: number) => void;
+    // Owner of the file; OCR pages count towards their quota
+    userId?: string;
+    // The file being extracted, so pages counted by an earlier attempt aren't counted again
+    fileId?: string;
+}
+
 /**
  * Service for extracting text from various file formats
  */
@@ -21,52 +58,68 @@ export class TextExtractionService {
     /**
      * Extract text from a file based on its mime type
      */
-    async extract(filePath: string, mimeType: string): Promise<ExtractionResult> {
+    async extract(filePath: string, mimeType: string, options: ExtractionOptions = {}): Promise<ExtractionResult> {
         if (!fs.existsSync(filePath)) {
-            throw AppError.notFound(`File not found at path: ${filePath}`);
+            throw AppError.notFound(`File not found at path: ${filePath}`, 'SOURCE_FILE_MISSING');
         }
 
         try {
             if (mimeType === 'application/pdf') {
-                return await this.extractPdf(filePath);
-            } else if (
-                mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-                mimeType === 'application/msword'
-            ) {
+                return await this.extractPdf(filePath, options);
+            } else if (mimeType === DOCX_MIME_TYPE || mimeType === 'application/msword') {
                 return await this.extractWord(filePath);
+            } else if (mimeType === PPTX_MIME_TYPE) {
+                return await this.extractPresentation(filePath);
+            } else if (mimeType === XLSX_MIME_TYPE) {
+                return await this.extractSpreadsheet(filePath);
+            } else if (mimeType === 'text/html') {
+                return await this.extractHtml(filePath);
             } else if (mimeType.startsWith('text/') || mimeType === 'application/json') {
                 return await this.extractText(filePath);
             } else if (mimeType.startsWith('image/')) {
-                return await this.extractImage(filePath);
+                return await this.extractImage(filePath, options);
             } else {
-                throw AppError.badRequest(`Unsupported file type for extraction: ${mimeType}`);
+                throw AppError.badRequest(`Unsupported file type for extraction: ${mimeType}`, 'UNSUPPORTED_FILE_TYPE');
             }
         } catch (error) {
             console.error(`Extraction error for ${filePath}:`, error);
-            throw AppError.internal(`Failed to extract text from file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            // Keep the cause's code (OCR, unsupported type...) so processing failures can be diagnosed
+            const code = error instanceof AppError && error.code ? error.code : 'EXTRACTION_FAILED';
+            throw AppError.internal(`Failed to extract text from file: ${error instanceof Error ? error.message : 'Unknown error'}`, code);
         }
     }
 
     /**
      * Extract text from PDF including page information
      */
-    private async extractPdf(filePath: string): Promise<ExtractionResult> {
+    private async extractPdf(filePath: string, options: ExtractionOptions): Promise<ExtractionResult> {
         const dataBuffer = fs.readFileSync(filePath);
 
-        // pdf-parse v1 is a simple function
+        // pdf-parse v1 is a simple function; a custom page renderer lets us keep per-page text
         const pdfParse = (await import('pdf-parse')).default;
-        const data = await pdfParse(dataBuffer);
+        const pageLines: { pageNumber: number; lines: PdfLine[] }[] = [];
+        const data = await pdfParse(dataBuffer, {
+            pagerender: async (pageData: any) => {
+                const lines = await this.renderPdfPage(pageData);
+                pageLines.push({ pageNumber: pageData.pageIndex + 1, lines });
+                return lines.map(line => line.text).join('\n');
+            }
+        });
 
         // Check if PDF has enough text or is likely a scanned document
         const extractedText = data.text.trim();
 
         if (extractedText.length < MIN_TEXT_THRESHOLD && data.numpages > 0) {
             console.log(`TextExtraction: PDF has minimal text (${extractedText.length} chars), attempting OCR fallback`);
-            return await this.extractPdfWithOCR(filePath, data.numpages);
+            return await this.extractPdfWithOCR(filePath, data.numpages, options);
         }
 
+        // Headings need the whole document's font sizes, so pages are built once all are rendered
+        const pages = this.markPdfHeadings(pageLines.sort((a, b) => a.pageNumber - b.pageNumber));
+
         return {
-            text: extractedText,
+            text: pages.map(p => p.content).join('\n\n'),
+            pages,
             metadata: {
                 totalPages: data.numpages,
                 info: data.info,
@@ -75,10 +128,93 @@ export class TextExtractionService {
         };
     }
 
+    /**
+     * Render a PDF page's text layer (mirrors pdf-parse's default renderer: new line on Y change),
+     * keeping each line's font size for heading detection
+     */
+    private async renderPdfPage(pageData: any): Promise<PdfLine[]> {
+        const textContent = await pageData.getTextContent({
+            normalizeWhitespace: false,
+            disableCombineTextItems: false
+        });
+
+        let lastY: number | undefined;
+        const lines: PdfLine[] = [];
+        for (const item of textContent.items) {
+            // Vertical scale of the text matrix is the rendered font size
+            const size = item.str.trim() ? Math.round(Math.hypot(item.transform[2], item.transform[3]) * 10) / 10 : 0;
+
+            if (lastY === undefined || lastY !== item.transform[5]) {
+                lines.push({ text: item.str, size });
+            } else {
+                const line = lines[lines.length - 1];
+                line.text += item.str;
+                line.size = Math.max(line.size, size);
+            }
+            lastY = item.transform[5];
+        }
+        return lines;
+    }
+
+    /**
+     * Turn short lines set noticeably larger than the body text into Markdown headings.
+     * The body size is the one most characters use; the largest heading sizes map to levels 1-3.
+     */
+    private markPdfHeadings(pageLines: { pageNumber: number; lines: PdfLine[] }[]): ExtractedPage[] {
+        const charsBySize = new Map<number, number>();
+        for (const { lines } of pageLines) {
+            for (const line of lines) {
+                if (line.size > 0) {
+                    charsBySize.set(line.size, (charsBySize.get(line.size) ?? 0) + line.text.trim().length);
+                }
+            }
+        }
+
+        const bodySize = [...charsBySize.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+        const isHeading = (line: PdfLine) =>
+            line.size >= bodySize * PDF_HEADING_SIZE_RATIO &&
+            line.text.trim().length <= PDF_HEADING_MAX_LENGTH &&
+            /\p{L}/u.test(line.text);
+        const headingSizes = [...charsBySize.keys()]
+            .filter(size => size >= bodySize * PDF_HEADING_SIZE_RATIO)
+            .sort((a, b) => b - a);
+        const levelOf = (size: number) => Math.min(headingSizes.indexOf(size) + 1, PDF_HEADING_LEVELS);
+
+        return pageLines.map(({ pageNumber, lines }) => {
+            const blocks: string[] = [];
+            let body: string[] = [];
+            let heading: PdfLine | null = null;
+
+            const flush = () => {
+                if (heading) blocks.push(`${'#'.repeat(levelOf(heading.size))} ${heading.text.replace(/\s+/g, ' ').trim()}`);
+                if (body.length > 0) blocks.push(body.join('\n'));
+                heading = null;
+                body = [];
+            };
+
+            for (const line of lines) {
+                if (bodySize > 0 && isHeading(line)) {
+                    // A heading wrapped over several lines continues while the size stays the same
+                    if (heading && body.length === 0 && heading.size === line.size) {
+                        heading.text += ' ' + line.text;
+                        continue;
+                    }
+                    flush();
+                    heading = { ...line };
+                } else {
+                    body.push(line.text);
+                }
+            }
+            flush();
+
+            return { pageNumber, content: blocks.join('\n\n') };
+        });
+    }
+
     /**
      * Extract text from scanned PDF using OCR
      */
-    private async extractPdfWithOCR(filePath: string, pageCount: number): Promise<ExtractionResult> {
+    private async extractPdfWithOCR(filePath: string, pageCount: number, extractionOptions: ExtractionOptions): Promise<ExtractionResult> {
         const tempDir = path.join(path.dirname(filePath), 'temp_ocr_' + Date.now());
 
         try {
@@ -95,27 +231,36 @@ export class TextExtractionService {
             };
 
             const convert = fromPath(filePath, options);
-            const imagePaths: string[] = [];
+            const imagePages: { pageNumber: number; path: string }[] = [];
 
-            // Convert each page (limit to first 10 pages for performance)
-            const pagesToProcess = Math.min(pageCount, 10);
+            // Convert each page (up to OCR_MAX_PAGES; the file is marked as truncated beyond that)
+            const pagesToProcess = Math.min(pageCount, config.ocrMaxPages);
+            if (pagesToProcess < pageCount) {
+                console.log(`TextExtraction: Scanned PDF has ${pageCount} pages, OCR limited to the first ${pagesToProcess}`);
+            }
 
             for (let i = 1; i <= pagesToProcess; i++) {
                 console.log(`TextExtraction: Converting PDF page ${i}/${pagesToProcess} to image`);
                 const result = await convert(i);
                 if (result.path) {
-                    imagePaths.push(result.path);
+                    imagePages.push({ pageNumber: i, path: result.path });
                 }
             }
 
-            // Run OCR on all page images
-            const ocrText = await ocrService.extractTextFromImages(imagePaths);
+            // Run OCR on all page images, keeping the original page numbers
+            const ocrPages = await ocrService.extractPages(imagePages.map(p => p.path), {
+                userId: extractionOptions.userId,
+                fileId: extractionOptions.fileId,
+                onPage: extractionOptions.onOcrPage,
+            });
+            const pages = imagePages.map((page, i) => ({ pageNumber: page.pageNumber, content: ocrPages[i].text }));
 
             return {
-                text: ocrText,
+                text: pages.map(p => `--- Page ${p.pageNumber} ---\n${p.content}`).join('\n\n'),
+                pages,
                 metadata: {
                     source: 'ocr',
-                    model: 'deepseek-vl2',
+                    engines: [...new Set(ocrPages.map(p => p.engine))],
                     totalPages: pageCount,
                     processedPages: pagesToProcess
                 }
@@ -133,18 +278,266 @@ export class TextExtractionService {
     }
 
     /**
-     * Extract text from Word documents
+     * Extract text from Word documents. Converting through HTML keeps heading styles
+     * (Heading 1, Heading 2...) as Markdown headings for structure-aware chunking.
      */
     private async extractWord(filePath: string): Promise<ExtractionResult> {
-        const result = await mammoth.extractRawText({ path: filePath });
+        // mammoth inflates the whole package, so every part is checked against its declared size first
+        const data = fs.readFileSync(filePath);
+        const zip = await this.openOfficeDocument(data);
+        for (const entry of Object.values(zip.files)) {
+            if (!entry.dir) await this.inflatePart(entry, false);
+        }
+
+        const result = await mammoth.convertToHtml({ buffer: data }, {
+            // Images carry no text; don't inline them as data URIs
+            convertImage: mammoth.images.imgElement(async () => ({ src: '' })),
+        });
         return {
-            text: result.value,
+            text: htmlToText(result.value),
             metadata: {
                 messages: result.messages
             }
         };
     }
 
+    /**
+     * Open an Office document's zip, refusing one whose parts declare more than OFFICE_MAX_UNCOMPRESSED_BYTES
+     */
+    private async openOfficeDocument(data: Buffer): Promise<JSZip> {
+        const zip = await JSZip.loadAsync(data);
+
+        let uncompressedBytes = 0;
+        zip.forEach((_path, entry) => { uncompressedBytes += declaredSize(entry); });
+        if (uncompressedBytes > OFFICE_MAX_UNCOMPRESSED_BYTES) {
+            throw AppError.badRequest('Document is too large once decompressed', 'DOCUMENT_TOO_LARGE');
+        }
+        return zip;
+    }
+
+    /**
+     * Read a part of an Office document as text
+     */
+    private async readPart(zip: JSZip, partPath: string): Promise<string | undefined> {
+        const entry = zip.file(partPath);
+        return entry ? (await this.inflatePart(entry)).toString('utf8') : undefined;
+    }
+
+    /**
+     * Decompress a part (discarding the data unless `keep`). Inflating stops once the part exceeds its
+     * declared size, so an archive that lies about its sizes can't get past the check in openOfficeDocument.
+     */
+    private inflatePart(entry: JSZip.JSZipObject, keep = true): Promise<Buffer> {
+        const limit = declaredSize(entry);
+        return new Promise((resolve, reject) => {
+            const chunks: Buffer[] = [];
+            let size = 0;
+            const stream = entry.nodeStream('nodebuffer');
+
+            stream.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > limit) {
+                    // Paused with a full buffer, the stream stops inflating
+                    stream.pause();
+                    stream.removeAllListeners('data');
+                    reject(AppError.badRequest('Document is too large once decompressed', 'DOCUMENT_TOO_LARGE'));
+                    return;
+                }
+                if (keep) chunks.push(chunk);
+            });
+            stream.on('error', reject);
+            stream.on('end', () => resolve(Buffer.concat(chunks)));
+        });
+    }
+
+    /**
+     * Extract slide text and speaker notes from PowerPoint (.pptx), one page per slide
+     */
+    private async extractPresentation(filePath: string): Promise<ExtractionResult> {
+        const zip = await this.openOfficeDocument(fs.readFileSync(filePath));
+        const slidePaths = await this.presentationSlidePaths(zip);
+        const pages: ExtractedPage[] = [];
+        let slidesWithNotes = 0;
+
+        for (let i = 0; i < slidePaths.length; i++) {
+            const slideXml = await this.readPart(zip, slidePaths[i]);
+            if (!slideXml) continue;
+
+            // The title placeholder becomes the slide's heading; untitled slides are headed by their number
+            const titleShape = Array.from(slideXml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g), match => match[0])
+                .find(shape => /<p:ph\b[^>]*type="(?:title|ctrTitle)"/.test(shape));
+            const title = titleShape ? drawingParagraphs(titleShape).join(' ') : '';
+            const body = titleShape ? slideXml.replace(titleShape, '') : slideXml;
+
+            const parts = [drawingParagraphs(body).join('\n')];
+
+            // Speaker notes are a separate part linked from the slide's relationships
+            const slideRels = await this.readRelationships(zip, slidePaths[i]);
+            const notesTarget = slideRels.find(rel => rel.type.endsWith('/notesSlide'));
+            const notesXml = notesTarget && await this.readPart(zip, notesTarget.path);
+            const notes = notesXml ? drawingParagraphs(notesXml).join('\n') : '';
+            if (notes) {
+                parts.push(`Speaker notes:\n${notes}`);
+                slidesWithNotes++;
+            }
+
+            const content = parts.filter(part => part.trim().length > 0).join('\n\n');
+            if (title || content) {
+                pages.push({ pageNumber: i + 1, content: `# ${title || `Slide ${i + 1}`}\n\n${content}`.trim() });
+            }
+        }
+
+        return {
+            text: pages.map(p => `--- Slide ${p.pageNumber} ---\n${p.content}`).join('\n\n'),
+            pages,
+            metadata: {
+                totalSlides: slidePaths.length,
+                slidesWithNotes
+            }
+        };
+    }
+
+    /**
+     * Slide part paths in presentation order (falls back to file numbering)
+     */
+    private async presentationSlidePaths(zip: JSZip): Promise<string[]> {
+        const presentationXml = await this.readPart(zip, 'ppt/presentation.xml');
+        if (presentationXml) {
+            const rels = await this.readRelationships(zip, 'ppt/presentation.xml');
+            const ordered = Array.from(presentationXml.matchAll(/<p:sldId\b[^>]*>/g))
+                .map(match => rels.find(rel => rel.id === tagAttributes(match[0])['r:id'])?.path)
+                .filter((p): p is string => !!p && !!zip.file(p));
+            if (ordered.length > 0) return ordered;
+        }
+
+        return Object.keys(zip.files)
+            .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+            .sort((a, b) => partNumber(a) - partNumber(b));
+    }
+
+    /**
+     * Extract cell values from Excel (.xlsx), one page per sheet
+     */
+    private async extractSpreadsheet(filePath: string): Promise<ExtractionResult> {
+        const zip = await this.openOfficeDocument(fs.readFileSync(filePath));
+
+        // Text cells reference a shared string table; rich text runs are concatenated, phonetic hints dropped
+        const sharedStringsXml = await this.readPart(zip, 'xl/sharedStrings.xml');
+        const sharedStrings = sharedStringsXml
+            ? Array.from(sharedStringsXml.matchAll(/<si>([\s\S]*?)<\/si>/g), match =>
+                elementTexts(match[1].replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''), 't').join(''))
+            : [];
+
+        const workbookXml = await this.readPart(zip, 'xl/workbook.xml');
+        if (!workbookXml) {
+            throw new Error('Invalid spreadsheet: xl/workbook.xml not found');
+        }
+        const workbookRels = await this.readRelationships(zip, 'xl/workbook.xml');
+        const dates = {
+            styles: await this.spreadsheetDateStyles(zip),
+            // Serial 0 is 1899-12-30 in the default date system, 1904-01-01 in the 1904 one
+            epochMs: /<workbookPr\b[^>]*\bdate1904="(1|true)"/.test(workbookXml) ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30),
+        };
+        const sheets = Array.from(workbookXml.matchAll(/<sheet\b[^>]*>/g), match => {
+            const attributes = tagAttributes(match[0]);
+            return {
+                name: attributes.name || 'Sheet',
+                path: workbookRels.find(rel => rel.id === attributes['r:id'])?.path,
+            };
+        });
+
+        const pages: ExtractedPage[] = [];
+        for (let i = 0; i < sheets.length; i++) {
+            const sheetXml = sheets[i].path && await this.readPart(zip, sheets[i].path!);
+            if (!sheetXml) continue;
+
+            const rows = Array.from(sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g), match => {
+                // Empty cells are often left out: place values by their reference so columns stay aligned
+                const values: string[] = [];
+                for (const cell of match[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+                    const attributes = tagAttributes(cell[1]);
+                    const reference = attributes.r ? columnIndex(attributes.r) : -1;
+                    const column = reference >= 0 ? reference : values.length;
+                    const isDate = dates.styles[Number(attributes.s ?? 0)] ?? false;
+                    values[column] = cellValue(attributes.t, cell[2] ?? '', sharedStrings, isDate ? dates.epochMs : null);
+                }
+                return values.some(value => value && value.length > 0)
+                    ? Array.from(values, value => value ?? '').join(' | ')
+                    : '';
+            }).filter(row => row.length > 0);
+            if (rows.length === 0) continue;
+
+            const [header, ...body] = rows;
+            const blocks: string[] = [];
+            for (let r = 0; r < Math.max(body.length, 1); r += SPREADSHEET_ROWS_PER_BLOCK) {
+                blocks.push([`## ${sheets[i].name}`, header, ...body.slice(r, r + SPREADSHEET_ROWS_PER_BLOCK)].join('\n'));
+            }
+            pages.push({ pageNumber: i + 1, content: blocks.join('\n\n') });
+        }
+
+        return {
+            text: pages.map(p => p.content).join('\n\n'),
+            pages,
+            metadata: {
+                sheets: sheets.map(sheet => sheet.name)
+            }
+        };
+    }
+
+    /**
+     * Whether each cell style (index into cellXfs) displays numbers as dates
+     */
+    private async spreadsheetDateStyles(zip: JSZip): Promise<boolean[]> {
+        const stylesXml = await this.readPart(zip, 'xl/styles.xml');
+        if (!stylesXml) return [];
+
+        const customFormats = new Map<number, string>();
+        for (const match of stylesXml.matchAll(/<numFmt\b[^>]*>/g)) {
+            const attributes = tagAttributes(match[0]);
+            customFormats.set(Number(attributes.numFmtId), attributes.formatCode || '');
+        }
+
+        const cellXfs = /<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/.exec(stylesXml)?.[1] ?? '';
+        return Array.from(cellXfs.matchAll(/<xf\b[^>]*>/g), match => {
+            const formatId = Number(tagAttributes(match[0]).numFmtId ?? 0);
+            const formatCode = customFormats.get(formatId);
+            return formatCode !== undefined ? isDateFormat(formatCode) : SPREADSHEET_DATE_FORMAT_IDS.has(formatId);
+        });
+    }
+
+    /**
+     * Relationships of an Open XML part, with targets resolved to paths inside the package
+     */
+    private async readRelationships(zip: JSZip, partPath: string): Promise<{ id: string; type: string; path: string }[]> {
+        const relsPath = path.posix.join(path.posix.dirname(partPath), '_rels', `${path.posix.basename(partPath)}.rels`);
+        const relsXml = await this.readPart(zip, relsPath);
+        if (!relsXml) return [];
+
+        return Array.from(relsXml.matchAll(/<Relationship\b[^>]*>/g), match => {
+            const attributes = tagAttributes(match[0]);
+            const target = attributes.Target || '';
+            return {
+                id: attributes.Id,
+                type: attributes.Type || '',
+                path: target.startsWith('/')
+                    ? target.slice(1)
+                    : path.posix.normalize(path.posix.join(path.posix.dirname(partPath), target)),
+            };
+        });
+    }
+
+    /**
+     * Extract text from HTML, keeping headings, lists and tables as Markdown-like structure
+     */
+    private async extractHtml(filePath: string): Promise<ExtractionResult> {
+        const html = fs.readFileSync(filePath, 'utf-8');
+        const title = elementTexts(html, 'title')[0]?.trim();
+        return {
+            text: htmlToText(html),
+            metadata: title ? { title } : {}
+        };
+    }
+
     /**
      * Extract text from plain text files
      */
@@ -156,17 +549,86 @@ export class TextExtractionService {
     /**
      * Extract text from images using OCR
      */
-    private async extractImage(filePath: string): Promise<ExtractionResult> {
+    private async extractImage(filePath: string, options: ExtractionOptions): Promise<ExtractionResult> {
         console.log(`TextExtraction: Running OCR on image ${filePath}`);
-        const text = await ocrService.extractTextFromImage(filePath);
+        const result = await ocrService.recognize(filePath, { userId: options.userId, fileId: options.fileId });
         return {
-            text,
+            text: result.text,
             metadata: {
                 source: 'ocr',
-                model: 'deepseek-vl2'
+                engines: [result.engine],
+                ...(result.confidence !== undefined ? { confidence: result.confidence } : {})
             }
         };
     }
 }
 
+/**
+ * Paragraph texts of a DrawingML part (slides, notes). Fields such as slide numbers are skipped.
+ */
+function drawingParagraphs(xml: string): string[] {
+    return xml
+        .replace(/<a:fld\b[\s\S]*?<\/a:fld>/g, '')
+        .replace(/<a:br\b[^>]*\/>/g, '<a:t>\n</a:t>')
+        .split('</a:p>')
+        .map(paragraph => elementTexts(paragraph, 'a:t').join('').trim())
+        .filter(text => text.length > 0);
+}
+
+/**
+ * Display value of a spreadsheet cell from its type attribute and inner XML.
+ * With a date epoch (the cell has a date format), numbers are Excel serial dates and become ISO dates.
+ */
+function cellValue(type: string | undefined, innerXml: string, sharedStrings: string[], dateEpochMs: number | null): string {
+    if (type === 'inlineStr') {
+        return elementTexts(innerXml, 't').join('').trim();
+    }
+
+    const raw = /<v>([\s\S]*?)<\/v>/.exec(innerXml)?.[1];
+    if (raw === undefined) return '';
+
+    if (type === 's') return (sharedStrings[Number(raw)] ?? '').trim();
+    if (type === 'b') return raw === '1' ? 'TRUE' : 'FALSE';
+
+    const serial = Number(raw);
+    if (dateEpochMs !== null && (type === undefined || type === 'n') && Number.isFinite(serial)) {
+        // Serials count days; the fraction is the time of day
+        const iso = new Date(dateEpochMs + Math.round(serial * 24 * 60 * 60 * 1000)).toISOString();
+        if (serial < 1) return iso.slice(11, 19);
+        return Number.isInteger(serial) ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 19)}`;
+    }
+    return decodeEntities(raw).trim();
+}
+
+/**
+ * Whether a custom number format displays a date or time: it has d, m, y, h or s
+ * outside quoted text, escapes and [...] sections (colors, conditions, elapsed time aside)
+ */
+function isDateFormat(formatCode: string): boolean {
+    const unquoted = formatCode.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+    return /[dmyhs]/i.test(unquoted);
+}
+
+/**
+ * Zero-based column of a cell reference, e.g. "C7" -> 2 (-1 without column letters)
+ */
+function columnIndex(reference: string): number {
+    let column = 0;
+    for (const letter of /^[A-Z]+/i.exec(reference)?.[0].toUpperCase() ?? '') {
+        column = column * 26 + letter.charCodeAt(0) - 64;
+    }
+    return column - 1;
+}
+
+/**
+ * Uncompressed size of a zip entry as declared in the central directory (JSZip keeps it private)
+ */
+function declaredSize(entry: JSZip.JSZipObject): number {
+    return (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+}
+
+function partNumber(partPath: string): number {
+    return Number(/(\d+)\.xml$/.exec(partPath)?.[1] ?? 0);
+}
+
 export const textExtractionService = new TextExtractionService();
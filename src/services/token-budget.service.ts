@@ -0,0 +1,114 @@
+import { encoding_for_model, get_encoding, Tiktoken, TiktokenModel, TiktokenEncoding } from 'tiktoken';
+import { config } from '../config';
+
+export interface BudgetMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface BudgetOptions {
+    model: string;
+    contextWindow?: number;
+    responseReserve?: number;
+}
+
+export interface HistoryBudget<T extends BudgetMessage> {
+    messages: T[];
+    systemPromptTokens: number;
+    historyTokens: number;
+    totalTokens: number;
+    budget: number;
+    droppedMessages: number;
+}
+
+// Chat formatting overhead per message and for priming the reply (OpenAI chat format)
+const TOKENS_PER_MESSAGE = 3;
+const REPLY_PRIMING_TOKENS = 3;
+
+// Used for models tiktoken doesn't know (Gemini, Claude, Llama...): close enough for budgeting
+const FALLBACK_ENCODING: TiktokenEncoding = 'cl100k_base';
+
+/**
+ * Counts tokens with the model's tokenizer and fits conversation history into the context window
+ */
+export class TokenBudgetService {
+    private encoders = new Map<string, Tiktoken>();
+
+    /**
+     * Count tokens in a piece of text
+     */
+    count(text: string, model: string = config.chatModel): number {
+        if (!text) return 0;
+        // Special tokens ("<|endoftext|>"...) typed by a user are counted as plain text instead of throwing
+        return this.encoderFor(model).encode(text, [], []).length;
+    }
+
+    /**
+     * Count tokens for a list of chat messages, including formatting overhead
+     */
+    countMessages(messages: BudgetMessage[], model: string = config.chatModel): number {
+        return messages.reduce(
+            (sum, message) => sum + TOKENS_PER_MESSAGE + this.count(message.content, model),
+            REPLY_PRIMING_TOKENS
+        );
+    }
+
+    /**
+     * Keep the most recent history that fits next to the system prompt,
+     * leaving room for the response. The latest message is always kept.
+     */
+    fitHistory<T extends BudgetMessage>(
+        systemPrompt: string,
+        history: T[],
+        options: BudgetOptions
+    ): HistoryBudget<T> {
+        const contextWindow = options.contextWindow ?? config.contextWindowTokens;
+        const budget = Math.max(0, contextWindow - (options.responseReserve ?? config.responseReserveTokens));
+
+        const systemPromptTokens = TOKENS_PER_MESSAGE + this.count(systemPrompt, options.model) + REPLY_PRIMING_TOKENS;
+        let remaining = budget - systemPromptTokens;
+
+        const kept: T[] = [];
+        let historyTokens = 0;
+
+        for (let i = history.length - 1; i >= 0; i--) {
+            const tokens = TOKENS_PER_MESSAGE + this.count(history[i].content, options.model);
+            if (tokens > remaining && kept.length > 0) break;
+
+            kept.unshift(history[i]);
+            historyTokens += tokens;
+            remaining -= tokens;
+        }
+
+        return {
+            messages: kept,
+            systemPromptTokens,
+            historyTokens,
+            totalTokens: systemPromptTokens + historyTokens,
+            budget,
+            droppedMessages: history.length - kept.length,
+        };
+    }
+
+    /**
+     * Resolve and cache the tokenizer for a model.
+     * Provider prefixes ("openai/gpt-4o") are stripped before lookup.
+     */
+    private encoderFor(model: string): Tiktoken {
+        const name = model.includes('/') ? model.slice(model.lastIndexOf('/') + 1) : model;
+
+        let encoder = this.encoders.get(name);
+        if (!encoder) {
+            try {
+                encoder = encoding_for_model(name as TiktokenModel);
+            } catch {
+                encoder = this.encoders.get(FALLBACK_ENCODING) ?? get_encoding(FALLBACK_ENCODING);
+                this.encoders.set(FALLBACK_ENCODING, encoder);
+            }
+            this.encoders.set(name, encoder);
+        }
+        return encoder;
+    }
+}
+
+export const tokenBudgetService = new TokenBudgetService();
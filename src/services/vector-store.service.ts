@@ -0,0 +1,408 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { config } from '../config';
+import { decodeVector, encodeVector } from '../utils';
+import { embeddingService } from './embedding.service';
+import {
+    VectorIndex,
+    VectorIndexKind,
+    HnswIndex,
+    HnswParams,
+    FlatIndex,
+    SerializedVectorIndex,
+} from '../utils/vectorIndex';
+
+export interface VectorRecord {
+    chunkId: string;
+    fileId: string;
+    vector: ArrayLike<number>;
+}
+
+export interface VectorSearchHit {
+    chunkId: string;
+    fileId: string;
+    similarity: number;
+}
+
+/**
+ * Storage-agnostic contract for nearest-neighbour search over chunk embeddings.
+ * Vectors are partitioned by subject, matching how retrieval is scoped.
+ */
+export interface VectorStore {
+    initialize(): Promise<void>;
+    reload(): Promise<void>;
+    upsert(subjectId: string, model: string, records: VectorRecord[]): Promise<void>;
+    removeFile(subjectId: string, fileId: string): Promise<void>;
+    removeSubject(subjectId: string): Promise<void>;
+    search(subjectId: string, query: ArrayLike<number>, k: number): Promise<VectorSearchHit[]>;
+}
+
+// Rows fetched per query when rebuilding an index from the database
+const REBUILD_PAGE_SIZE = 500;
+
+// Rows fetched per query when listing indexed chunk ids at startup (ids only, so larger pages)
+const RECONCILE_PAGE_SIZE = 5000;
+
+// Delay before dirty indexes are written to disk (coalesces bursts of writes)
+const FLUSH_DELAY_MS = 5000;
+
+/**
+ * Order-independent fingerprint of a set of chunk ids (XOR of their MD5 digests).
+ * Tells a snapshot apart from the database even when the vector counts match.
+ */
+class LabelChecksum {
+    count = 0;
+    private digest = Buffer.alloc(16);
+
+    add(label: string): void {
+        const hash = crypto.createHash('md5').update(label).digest();
+        for (let i = 0; i < 16; i++) this.digest[i] ^= hash[i];
+        this.count++;
+    }
+
+    equals(other: LabelChecksum): boolean {
+        return this.count === other.count && this.digest.equals(other.digest);
+    }
+
+    static of(labels: Iterable<string>): LabelChecksum {
+        const checksum = new LabelChecksum();
+        for (const label of labels) checksum.add(label);
+        return checksum;
+    }
+}
+
+/**
+ * In-process vector store: one ANN index per subject, kept in memory,
+ * snapshotted to disk and reconciled against `file_embeddings` at startup.
+ * Only vectors of the active embedding model are indexed; snapshots live in a directory per model.
+ */
+export class LocalVectorStore implements VectorStore {
+    private indexes = new Map<string, VectorIndex>();
+    private dirty = new Set<string>();
+    private initPromise: Promise<void> | null = null;
+    private reloadPromise: Promise<void> | null = null;
+    private flushTimer: NodeJS.Timeout | null = null;
+    private model = '';
+
+    constructor(
+        private kind: VectorIndexKind,
+        private directory: string,
+        private hnswParams: HnswParams
+    ) { }
+
+    /**
+     * Load snapshots from disk and rebuild any subject whose snapshot is missing or stale.
+     * Safe to call multiple times; the work only runs once.
+     */
+    initialize(): Promise<void> {
+        if (!this.initPromise) {
+            this.initPromise = this.load().catch(error => {
+                // Allow a later call to retry instead of caching the failure forever
+                this.initPromise = null;
+                throw error;
+            });
+        }
+        return this.initPromise;
+    }
+
+    /**
+     * Drop all indexes and load them again for the (new) active embedding model.
+     * Searches issued meanwhile wait for the reload; concurrent calls share one reload.
+     */
+    reload(): Promise<void> {
+        if (!this.reloadPromise) {
+            this.reloadPromise = this.reloadIndexes().finally(() => { this.reloadPromise = null; });
+        }
+        return this.reloadPromise;
+    }
+
+    private async reloadIndexes(): Promise<void> {
+        await this.initPromise?.catch(() => undefined);
+        await this.flush();
+
+        const previousModel = this.model;
+        this.indexes.clear();
+        this.initPromise = null;
+        await this.initialize();
+
+        if (previousModel && previousModel !== this.model) {
+            await fs.promises.rm(this.modelDirectory(previousModel), { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Add vectors embedded with `model`; they are skipped if that is no longer the active model
+     */
+    async upsert(subjectId: string, model: string, records: VectorRecord[]): Promise<void> {
+        if (records.length === 0) return;
+        await this.syncModel();
+        if (model !== this.model) return;
+
+        let index = this.indexes.get(subjectId);
+        if (!index) {
+            index = this.createIndex(records[0].vector.length);
+            this.indexes.set(subjectId, index);
+        }
+
+        for (const record of records) {
+            index.add(record.chunkId, record.fileId, record.vector);
+        }
+        this.markDirty(subjectId);
+    }
+
+    async removeFile(subjectId: string, fileId: string): Promise<void> {
+        await this.initialize();
+
+        const index = this.indexes.get(subjectId);
+        if (index && index.removeGroup(fileId) > 0) {
+            this.markDirty(subjectId);
+        }
+    }
+
+    async removeSubject(subjectId: string): Promise<void> {
+        await this.initialize();
+
+        this.indexes.delete(subjectId);
+        this.dirty.delete(subjectId);
+        await this.deleteSnapshot(subjectId);
+    }
+
+    async search(subjectId: string, query: ArrayLike<number>, k: number): Promise<VectorSearchHit[]> {
+        await this.syncModel();
+
+        const index = this.indexes.get(subjectId);
+        if (!index || index.dimensions !== query.length) return [];
+
+        return index.search(query, k).map(match => ({
+            chunkId: match.label,
+            fileId: match.group,
+            similarity: match.score,
+        }));
+    }
+
+    /**
+     * Initialize, and reload if the active model changed since (a cutover made by another instance)
+     */
+    private async syncModel(): Promise<void> {
+        await this.reloadPromise;
+        await this.initialize();
+        if (await embeddingService.getActiveModel() !== this.model) {
+            await this.reload();
+        }
+    }
+
+    /**
+     * Reconcile on-disk snapshots with the database
+     */
+    private async load(): Promise<void> {
+        const startedAt = Date.now();
+        this.model = await embeddingService.getActiveModel();
+        await fs.promises.mkdir(this.modelDirectory(this.model), { recursive: true });
+
+        const expected = await this.expectedChecksums();
+
+        // Drop snapshots for subjects that no longer have any vectors
+        const snapshotIds = await this.listSnapshots();
+        await Promise.all(
+            snapshotIds
+                .filter(subjectId => !expected.has(subjectId))
+                .map(subjectId => this.deleteSnapshot(subjectId))
+        );
+
+        let rebuilt = 0;
+        for (const [subjectId, checksum] of expected) {
+            const snapshot = snapshotIds.includes(subjectId)
+                ? await this.readSnapshot(subjectId).catch(error => {
+                    console.warn(`VectorStore: Ignoring unreadable snapshot for subject ${subjectId}:`, error);
+                    return null;
+                })
+                : null;
+
+            if (snapshot && snapshot.kind === this.kind && LabelChecksum.of(snapshot.labels()).equals(checksum)) {
+                this.indexes.set(subjectId, snapshot);
+                continue;
+            }
+
+            const index = await this.rebuildFromDatabase(subjectId);
+            if (index) {
+                this.indexes.set(subjectId, index);
+                this.markDirty(subjectId);
+            }
+            rebuilt++;
+        }
+
+        console.log(`VectorStore: Loaded ${this.indexes.size} subject index(es) for ${this.model} (${rebuilt} rebuilt from database) in ${Date.now() - startedAt}ms`);
+    }
+
+    /**
+     * Checksum of the chunk ids each subject should have in its index, according to the database
+     */
+    private async expectedChecksums(): Promise<Map<string, LabelChecksum>> {
+        const expected = new Map<string, LabelChecksum>();
+        let cursor: string | undefined;
+
+        while (true) {
+            const rows = await prisma.fileEmbedding.findMany({
+                // Same rows rebuildFromDatabase can index
+                where: { model: this.model, OR: [{ vectorData: { not: null } }, { vector: { not: null } }] },
+                select: { id: true, chunkId: true, chunk: { select: { file: { select: { subjectId: true } } } } },
+                orderBy: { id: 'asc' },
+                take: RECONCILE_PAGE_SIZE,
+                ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+            });
+
+            if (rows.length === 0) break;
+            cursor = rows[rows.length - 1].id;
+
+            for (const row of rows) {
+                const subjectId = row.chunk.file.subjectId;
+                let checksum = expected.get(subjectId);
+                if (!checksum) {
+                    checksum = new LabelChecksum();
+                    expected.set(subjectId, checksum);
+                }
+                checksum.add(row.chunkId);
+            }
+        }
+
+        return expected;
+    }
+
+    /**
+     * Build a subject's index from `file_embeddings`, migrating legacy JSON vectors to the binary encoding
+     */
+    private async rebuildFromDatabase(subjectId: string): Promise<VectorIndex | null> {
+        let index: VectorIndex | null = null;
+        let cursor: string | undefined;
+
+        while (true) {
+            const rows = await prisma.fileEmbedding.findMany({
+                where: { model: this.model, chunk: { file: { subjectId } } },
+                select: {
+                    id: true,
+                    chunkId: true,
+                    vector: true,
+                    vectorData: true,
+                    chunk: { select: { fileId: true } },
+                },
+                orderBy: { id: 'asc' },
+                take: REBUILD_PAGE_SIZE,
+                ...(cursor ? { skip: 1, cursor: { id: cursor } } : {}),
+            });
+
+            if (rows.length === 0) break;
+            cursor = rows[rows.length - 1].id;
+
+            for (const row of rows) {
+                const source = row.vectorData ?? row.vector;
+                if (!source) continue;
+
+                const vector = decodeVector(source);
+                if (!index) index = this.createIndex(vector.length);
+                index.add(row.chunkId, row.chunk.fileId, vector);
+
+                if (!row.vectorData) {
+                    await prisma.fileEmbedding.update({
+                        where: { id: row.id },
+                        data: { vectorData: encodeVector(vector), dimensions: vector.length, vector: null },
+                    });
+                }
+            }
+        }
+
+        return index;
+    }
+
+    private createIndex(dimensions: number): VectorIndex {
+        return this.kind === 'flat'
+            ? new FlatIndex(dimensions)
+            : new HnswIndex(dimensions, this.hnswParams);
+    }
+
+    private markDirty(subjectId: string): void {
+        this.dirty.add(subjectId);
+        if (this.flushTimer) return;
+
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = null;
+            this.flush().catch(error => console.error('VectorStore: Failed to persist index:', error));
+        }, FLUSH_DELAY_MS);
+        // Never keep the process alive just to write a snapshot
+        this.flushTimer.unref();
+    }
+
+    /**
+     * Write all dirty indexes to disk
+     */
+    async flush(): Promise<void> {
+        const subjectIds = Array.from(this.dirty);
+        this.dirty.clear();
+
+        for (const subjectId of subjectIds) {
+            const index = this.indexes.get(subjectId);
+            if (!index || index.size === 0) {
+                await this.deleteSnapshot(subjectId);
+                continue;
+            }
+            await this.writeSnapshot(subjectId, index.serialize());
+        }
+    }
+
+    private modelDirectory(model: string): string {
+        return path.join(this.directory, model.replace(/[^a-zA-Z0-9._-]/g, '_'));
+    }
+
+    private snapshotPaths(subjectId: string) {
+        const base = path.join(this.modelDirectory(this.model), subjectId);
+        return { header: `${base}.json`, vectors: `${base}.vec` };
+    }
+
+    private async listSnapshots(): Promise<string[]> {
+        const entries = await fs.promises.readdir(this.modelDirectory(this.model));
+        return entries
+            .filter(name => name.endsWith('.json'))
+            .map(name => path.basename(name, '.json'));
+    }
+
+    private async readSnapshot(subjectId: string): Promise<VectorIndex> {
+        const paths = this.snapshotPaths(subjectId);
+        const [header, vectors] = await Promise.all([
+            fs.promises.readFile(paths.header, 'utf-8'),
+            fs.promises.readFile(paths.vectors),
+        ]);
+        const data: SerializedVectorIndex = { header: JSON.parse(header), vectors };
+
+        return data.header.kind === 'flat'
+            ? FlatIndex.deserialize(data)
+            : HnswIndex.deserialize(data, this.hnswParams);
+    }
+
+    private async writeSnapshot(subjectId: string, data: SerializedVectorIndex): Promise<void> {
+        const paths = this.snapshotPaths(subjectId);
+
+        // Write to temp files then rename, so a crash never leaves a half-written snapshot
+        await fs.promises.writeFile(`${paths.vectors}.tmp`, data.vectors);
+        await fs.promises.writeFile(`${paths.header}.tmp`, JSON.stringify(data.header));
+        await fs.promises.rename(`${paths.vectors}.tmp`, paths.vectors);
+        await fs.promises.rename(`${paths.header}.tmp`, paths.header);
+    }
+
+    private async deleteSnapshot(subjectId: string): Promise<void> {
+        const paths = this.snapshotPaths(subjectId);
+        await Promise.all(
+            [paths.header, paths.vectors].map(p => fs.promises.rm(p, { force: true }))
+        );
+    }
+}
+
+export const vectorStore = new LocalVectorStore(
+    config.vectorIndexType,
+    config.vectorIndexDir,
+    {
+        m: config.hnswM,
+        efConstruction: config.hnswEfConstruction,
+        efSearch: config.hnswEfSearch,
+    }
+);
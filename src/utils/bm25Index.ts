@@ -0,0 +1,130 @@
+/**
+ * In-memory BM25 index for lexical retrieval.
+ * Complements embedding search for exact terms: theorem names, exercise numbers, identifiers.
+ */
+
+// Standard BM25 parameters (term frequency saturation, length normalization)
+const K1 = 1.2;
+const B = 0.75;
+
+export interface LexicalMatch {
+    label: string;
+    group: string;
+    score: number;
+    relevance: number; // Score over the best score the query could reach in this index (0-1)
+}
+
+interface IndexedDocument {
+    group: string;
+    length: number;
+    termFrequencies: Map<string, number>;
+}
+
+/**
+ * Split text into normalized search terms.
+ * Accents are folded ("théorème" matches "theoreme") and dotted/underscored
+ * tokens are kept whole so "3.2" or "malloc_free" stay searchable.
+ */
+export function tokenize(text: string): string[] {
+    const folded = text
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase();
+
+    return folded.match(/[\p{L}\p{N}]+(?:[._][\p{L}\p{N}]+)*/gu) || [];
+}
+
+export class Bm25Index {
+    private documents = new Map<string, IndexedDocument>();
+    private postings = new Map<string, Set<string>>();
+    private totalLength = 0;
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    add(label: string, group: string, text: string): void {
+        this.remove(label);
+
+        const terms = tokenize(text);
+        const termFrequencies = new Map<string, number>();
+        for (const term of terms) {
+            termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+        }
+
+        this.documents.set(label, { group, length: terms.length, termFrequencies });
+        this.totalLength += terms.length;
+
+        for (const term of termFrequencies.keys()) {
+            let labels = this.postings.get(term);
+            if (!labels) {
+                labels = new Set();
+                this.postings.set(term, labels);
+            }
+            labels.add(label);
+        }
+    }
+
+    remove(label: string): boolean {
+        const document = this.documents.get(label);
+        if (!document) return false;
+
+        for (const term of document.termFrequencies.keys()) {
+            const labels = this.postings.get(term);
+            labels?.delete(label);
+            if (labels && labels.size === 0) {
+                this.postings.delete(term);
+            }
+        }
+
+        this.totalLength -= document.length;
+        this.documents.delete(label);
+        return true;
+    }
+
+    removeGroup(group: string): number {
+        let removed = 0;
+        for (const [label, document] of this.documents) {
+            if (document.group === group) {
+                this.remove(label);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    search(query: string, k: number): LexicalMatch[] {
+        const documentCount = this.documents.size;
+        if (documentCount === 0 || k <= 0) return [];
+
+        const averageLength = this.totalLength / documentCount || 1;
+        const scores = new Map<string, number>();
+        // A term's score tends to idf * (K1 + 1) as its frequency grows. Terms no document has are
+        // left out: typos or words of another language would otherwise sink every match.
+        let maxScore = 0;
+
+        for (const term of new Set(tokenize(query))) {
+            const labels = this.postings.get(term);
+            if (!labels) continue;
+
+            const idf = Math.log(1 + (documentCount - labels.size + 0.5) / (labels.size + 0.5));
+            maxScore += idf * (K1 + 1);
+
+            for (const label of labels) {
+                const document = this.documents.get(label)!;
+                const tf = document.termFrequencies.get(term)!;
+                const termScore = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * document.length / averageLength));
+                scores.set(label, (scores.get(label) || 0) + termScore);
+            }
+        }
+
+        return Array.from(scores, ([label, score]) => ({
+            label,
+            group: this.documents.get(label)!.group,
+            score,
+            relevance: maxScore > 0 ? score / maxScore : 0,
+        }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, k);
+    }
+}
@@ -1,2 +1,3 @@
 export { AppError } from './AppError';
 export { asyncHandler } from './asyncHandler';
+export { encodeVector, decodeVector, normalizeVector, dotProduct } from './vectorCodec';
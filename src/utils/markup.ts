@@ -0,0 +1,79 @@
+/**
+ * Helpers for turning XML/HTML markup into plain text for extraction.
+ * Regex-based on purpose: inputs are machine-written (Office Open XML) or only need
+ * their readable text and structure (HTML), so a full DOM parser isn't needed.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+};
+
+/**
+ * Decode named (XML + nbsp) and numeric character references
+ */
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X'
+                ? parseInt(entity.slice(2), 16)
+                : parseInt(entity.slice(1), 10);
+            // Out of the Unicode range (fromCodePoint would throw): keep the reference as written
+            return Number.isNaN(code) || code > 0x10ffff ? match : String.fromCodePoint(code);
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Text content of every `<tag>` element (attributes allowed), in document order
+ */
+export function elementTexts(xml: string, tag: string): string[] {
+    const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+    return Array.from(xml.matchAll(pattern), match => decodeEntities(match[1]));
+}
+
+/**
+ * Attributes of a single tag, e.g. `<sheet name="A" r:id="rId1"/>` -> { name: 'A', 'r:id': 'rId1' }
+ */
+export function tagAttributes(tag: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*"([^"]*)"/g)) {
+        attributes[match[1]] = decodeEntities(match[2]);
+    }
+    return attributes;
+}
+
+function stripTags(html: string): string {
+    return html.replace(/<[^>]*>/g, '');
+}
+
+/**
+ * Convert HTML to plain text that keeps its structure:
+ * headings become Markdown headings, list items become "- " lines,
+ * table cells are separated by " | " and blocks by blank lines.
+ */
+export function htmlToText(html: string): string {
+    const text = html
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<(script|style|noscript|template|head|svg)\b[\s\S]*?<\/\1>/gi, '')
+        .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, inner: string) =>
+            `\n\n${'#'.repeat(Number(level))} ${stripTags(inner).replace(/\s+/g, ' ').trim()}\n\n`
+        )
+        .replace(/<li\b[^>]*>/gi, '\n- ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/t[dh]>/gi, ' | ')
+        .replace(/<\/(tr|dt|dd)>/gi, '\n')
+        .replace(/<\/?(p|div|section|article|main|header|footer|nav|aside|ul|ol|dl|table|blockquote|pre|figure|hr)\b[^>]*>/gi, '\n\n');
+
+    return decodeEntities(stripTags(text))
+        .split('\n')
+        .map(line => line.replace(/[ \t]+/g, ' ').replace(/( \| )+$/, '').trim())
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
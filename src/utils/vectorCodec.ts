@@ -0,0 +1,63 @@
+/**
+ * Helpers for storing embedding vectors compactly.
+ * Vectors are persisted as little-endian Float32 bytes instead of JSON text,
+ * which is ~4x smaller and avoids JSON.parse on every read.
+ */
+
+/**
+ * Encode a vector as little-endian Float32 bytes
+ */
+export function encodeVector(vector: ArrayLike<number>): Buffer {
+    const buffer = Buffer.alloc(vector.length * 4);
+    for (let i = 0; i < vector.length; i++) {
+        buffer.writeFloatLE(vector[i], i * 4);
+    }
+    return buffer;
+}
+
+/**
+ * Decode a stored vector.
+ * Accepts the binary encoding, or the legacy JSON text for rows written before the switch.
+ */
+export function decodeVector(data: Uint8Array | string): Float32Array {
+    if (typeof data === 'string') {
+        return Float32Array.from(JSON.parse(data) as number[]);
+    }
+
+    const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    const vector = new Float32Array(buffer.length / 4);
+    for (let i = 0; i < vector.length; i++) {
+        vector[i] = buffer.readFloatLE(i * 4);
+    }
+    return vector;
+}
+
+/**
+ * Return a unit-length copy of a vector (cosine similarity then becomes a dot product)
+ */
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+        norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm);
+
+    const normalized = new Float32Array(vector.length);
+    if (norm === 0) return normalized;
+
+    for (let i = 0; i < vector.length; i++) {
+        normalized[i] = vector[i] / norm;
+    }
+    return normalized;
+}
+
+/**
+ * Dot product of two vectors of equal length
+ */
+export function dotProduct(vecA: ArrayLike<number>, vecB: ArrayLike<number>): number {
+    let sum = 0;
+    for (let i = 0; i < vecA.length; i++) {
+        sum += vecA[i] * vecB[i];
+    }
+    return sum;
+}
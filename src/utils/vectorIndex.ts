@@ -0,0 +1,468 @@
+/**
+ * In-memory vector indexes used by the vector store.
+ * All vectors are normalized on insert, so the score returned by a search
+ * is the cosine similarity between the query and the stored vector.
+ */
+
+import { dotProduct, normalizeVector } from './vectorCodec';
+
+export type VectorIndexKind = 'hnsw' | 'flat';
+
+export interface VectorMatch {
+    label: string;
+    group: string;
+    score: number;
+}
+
+export interface SerializedVectorIndex {
+    header: Record<string, any>;
+    vectors: Buffer;
+}
+
+/**
+ * Common contract for vector indexes.
+ * `label` identifies a single vector, `group` lets callers remove related vectors together.
+ */
+export interface VectorIndex {
+    readonly kind: VectorIndexKind;
+    readonly dimensions: number;
+    readonly size: number;
+    labels(): IterableIterator<string>;
+    add(label: string, group: string, vector: ArrayLike<number>): void;
+    remove(label: string): boolean;
+    removeGroup(group: string): number;
+    search(query: ArrayLike<number>, k: number): VectorMatch[];
+    serialize(): SerializedVectorIndex;
+}
+
+export interface HnswParams {
+    m: number;
+    efConstruction: number;
+    efSearch: number;
+}
+
+interface HnswNode {
+    label: string;
+    group: string;
+    vector: Float32Array;
+    level: number;
+    neighbors: number[][];
+    deleted: boolean;
+}
+
+interface ScoredNode {
+    id: number;
+    score: number;
+}
+
+/**
+ * Minimal binary heap ordered by a comparator (top = element that compares first)
+ */
+class BinaryHeap<T> {
+    private items: T[] = [];
+
+    constructor(private compare: (a: T, b: T) => number) { }
+
+    get length(): number {
+        return this.items.length;
+    }
+
+    peek(): T | undefined {
+        return this.items[0];
+    }
+
+    push(item: T): void {
+        const items = this.items;
+        items.push(item);
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.compare(items[i], items[parent]) >= 0) break;
+            [items[i], items[parent]] = [items[parent], items[i]];
+            i = parent;
+        }
+    }
+
+    pop(): T | undefined {
+        const items = this.items;
+        if (items.length === 0) return undefined;
+
+        const top = items[0];
+        const last = items.pop()!;
+        if (items.length > 0) {
+            items[0] = last;
+            let i = 0;
+            while (true) {
+                const left = 2 * i + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+                if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+                if (smallest === i) break;
+                [items[i], items[smallest]] = [items[smallest], items[i]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+
+    toArray(): T[] {
+        return [...this.items];
+    }
+}
+
+/**
+ * Hierarchical Navigable Small World graph (Malkov & Yashunin) for approximate nearest neighbour search.
+ * Deletions are tombstoned and the graph is rebuilt once tombstones dominate.
+ */
+export class HnswIndex implements VectorIndex {
+    readonly kind = 'hnsw';
+
+    private nodes: HnswNode[] = [];
+    private labelToNode = new Map<string, number>();
+    private entryPoint = -1;
+    private maxLevel = -1;
+    private deletedCount = 0;
+    private readonly levelMultiplier: number;
+
+    constructor(readonly dimensions: number, private params: HnswParams) {
+        this.levelMultiplier = 1 / Math.log(Math.max(params.m, 2));
+    }
+
+    get size(): number {
+        return this.labelToNode.size;
+    }
+
+    labels(): IterableIterator<string> {
+        return this.labelToNode.keys();
+    }
+
+    add(label: string, group: string, vector: ArrayLike<number>): void {
+        this.assertDimensions(vector);
+        this.remove(label);
+
+        const normalized = normalizeVector(vector);
+        const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+        const id = this.nodes.length;
+
+        this.nodes.push({
+            label,
+            group,
+            vector: normalized,
+            level,
+            neighbors: Array.from({ length: level + 1 }, () => []),
+            deleted: false,
+        });
+        this.labelToNode.set(label, id);
+
+        if (this.entryPoint === -1) {
+            this.entryPoint = id;
+            this.maxLevel = level;
+            return;
+        }
+
+        let current = this.entryPoint;
+        for (let l = this.maxLevel; l > level; l--) {
+            current = this.greedySearch(normalized, current, l);
+        }
+
+        for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+            const candidates = this.searchLayer(normalized, current, this.params.efConstruction, l);
+            const selected = candidates.slice(0, this.params.m);
+
+            this.nodes[id].neighbors[l] = selected.map(c => c.id);
+            for (const candidate of selected) {
+                this.connect(candidate.id, id, l);
+            }
+
+            current = candidates[0].id;
+        }
+
+        if (level > this.maxLevel) {
+            this.maxLevel = level;
+            this.entryPoint = id;
+        }
+    }
+
+    remove(label: string): boolean {
+        const id = this.labelToNode.get(label);
+        if (id === undefined) return false;
+
+        this.nodes[id].deleted = true;
+        this.labelToNode.delete(label);
+        this.deletedCount++;
+
+        if (this.labelToNode.size === 0) {
+            this.reset();
+        } else if (this.deletedCount > this.nodes.length / 2) {
+            this.compact();
+        }
+        return true;
+    }
+
+    removeGroup(group: string): number {
+        const labels = this.nodes
+            .filter(node => !node.deleted && node.group === group)
+            .map(node => node.label);
+
+        for (const label of labels) {
+            this.remove(label);
+        }
+        return labels.length;
+    }
+
+    search(query: ArrayLike<number>, k: number): VectorMatch[] {
+        if (this.entryPoint === -1 || k <= 0) return [];
+        this.assertDimensions(query);
+
+        const normalized = normalizeVector(query);
+        let current = this.entryPoint;
+        for (let l = this.maxLevel; l > 0; l--) {
+            current = this.greedySearch(normalized, current, l);
+        }
+
+        // Widen the beam by the tombstone count so deleted nodes do not starve the result set
+        const ef = Math.max(this.params.efSearch, k) + Math.min(this.deletedCount, k);
+        return this.searchLayer(normalized, current, ef, 0)
+            .filter(candidate => !this.nodes[candidate.id].deleted)
+            .slice(0, k)
+            .map(candidate => ({
+                label: this.nodes[candidate.id].label,
+                group: this.nodes[candidate.id].group,
+                score: candidate.score,
+            }));
+    }
+
+    serialize(): SerializedVectorIndex {
+        const vectors = Buffer.alloc(this.nodes.length * this.dimensions * 4);
+        this.nodes.forEach((node, i) => {
+            Buffer.from(node.vector.buffer, node.vector.byteOffset, node.vector.byteLength)
+                .copy(vectors, i * this.dimensions * 4);
+        });
+
+        return {
+            header: {
+                kind: this.kind,
+                dimensions: this.dimensions,
+                params: this.params,
+                entryPoint: this.entryPoint,
+                maxLevel: this.maxLevel,
+                nodes: this.nodes.map(node => ({
+                    label: node.label,
+                    group: node.group,
+                    level: node.level,
+                    neighbors: node.neighbors,
+                    deleted: node.deleted,
+                })),
+            },
+            vectors,
+        };
+    }
+
+    static deserialize(data: SerializedVectorIndex, params: HnswParams): HnswIndex {
+        const { header, vectors } = data;
+        // The graph was built with the stored M, so keep it; search-time params may change freely
+        const index = new HnswIndex(header.dimensions, { ...params, m: header.params.m });
+        const stride = header.dimensions * 4;
+
+        index.nodes = (header.nodes as Array<Omit<HnswNode, 'vector'>>).map((node, i) => ({
+            ...node,
+            vector: new Float32Array(vectors.buffer.slice(vectors.byteOffset + i * stride, vectors.byteOffset + (i + 1) * stride)),
+        }));
+        index.nodes.forEach((node, id) => {
+            if (node.deleted) {
+                index.deletedCount++;
+            } else {
+                index.labelToNode.set(node.label, id);
+            }
+        });
+        index.entryPoint = header.entryPoint;
+        index.maxLevel = header.maxLevel;
+
+        return index;
+    }
+
+    /**
+     * Add a back-link from `from` to `to`, pruning to the closest neighbours when over capacity
+     */
+    private connect(from: number, to: number, level: number): void {
+        const node = this.nodes[from];
+        const neighbors = node.neighbors[level];
+        neighbors.push(to);
+
+        const maxConnections = level === 0 ? this.params.m * 2 : this.params.m;
+        if (neighbors.length > maxConnections) {
+            node.neighbors[level] = neighbors
+                .map(id => ({ id, score: dotProduct(node.vector, this.nodes[id].vector) }))
+                .sort((a, b) => b.score - a.score)
+                .slice(0, maxConnections)
+                .map(c => c.id);
+        }
+    }
+
+    /**
+     * Walk greedily towards the query on a single layer
+     */
+    private greedySearch(query: Float32Array, start: number, level: number): number {
+        let current = start;
+        let bestScore = dotProduct(query, this.nodes[current].vector);
+        let improved = true;
+
+        while (improved) {
+            improved = false;
+            for (const neighbor of this.nodes[current].neighbors[level] || []) {
+                const score = dotProduct(query, this.nodes[neighbor].vector);
+                if (score > bestScore) {
+                    bestScore = score;
+                    current = neighbor;
+                    improved = true;
+                }
+            }
+        }
+
+        return current;
+    }
+
+    /**
+     * Beam search on a single layer. Returns up to `ef` nodes sorted by descending score.
+     */
+    private searchLayer(query: Float32Array, start: number, ef: number, level: number): ScoredNode[] {
+        const visited = new Set<number>([start]);
+        const first = { id: start, score: dotProduct(query, this.nodes[start].vector) };
+
+        // Candidates: best first. Results: worst on top so it can be evicted.
+        const candidates = new BinaryHeap<ScoredNode>((a, b) => b.score - a.score);
+        const results = new BinaryHeap<ScoredNode>((a, b) => a.score - b.score);
+        candidates.push(first);
+        results.push(first);
+
+        while (candidates.length > 0) {
+            const candidate = candidates.pop()!;
+            if (results.length >= ef && candidate.score < results.peek()!.score) break;
+
+            for (const neighbor of this.nodes[candidate.id].neighbors[level] || []) {
+                if (visited.has(neighbor)) continue;
+                visited.add(neighbor);
+
+                const score = dotProduct(query, this.nodes[neighbor].vector);
+                if (results.length < ef || score > results.peek()!.score) {
+                    candidates.push({ id: neighbor, score });
+                    results.push({ id: neighbor, score });
+                    if (results.length > ef) results.pop();
+                }
+            }
+        }
+
+        return results.toArray().sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Rebuild the graph from live nodes only
+     */
+    private compact(): void {
+        const live = this.nodes.filter(node => !node.deleted);
+        this.reset();
+        for (const node of live) {
+            this.add(node.label, node.group, node.vector);
+        }
+    }
+
+    private reset(): void {
+        this.nodes = [];
+        this.labelToNode.clear();
+        this.entryPoint = -1;
+        this.maxLevel = -1;
+        this.deletedCount = 0;
+    }
+
+    private assertDimensions(vector: ArrayLike<number>): void {
+        if (vector.length !== this.dimensions) {
+            throw new Error(`Vector has ${vector.length} dimensions, index expects ${this.dimensions}`);
+        }
+    }
+}
+
+/**
+ * Exact brute-force index. Useful for small subjects or to validate HNSW recall.
+ */
+export class FlatIndex implements VectorIndex {
+    readonly kind = 'flat';
+
+    private entries = new Map<string, { group: string; vector: Float32Array }>();
+
+    constructor(readonly dimensions: number) { }
+
+    get size(): number {
+        return this.entries.size;
+    }
+
+    labels(): IterableIterator<string> {
+        return this.entries.keys();
+    }
+
+    add(label: string, group: string, vector: ArrayLike<number>): void {
+        if (vector.length !== this.dimensions) {
+            throw new Error(`Vector has ${vector.length} dimensions, index expects ${this.dimensions}`);
+        }
+        this.entries.set(label, { group, vector: normalizeVector(vector) });
+    }
+
+    remove(label: string): boolean {
+        return this.entries.delete(label);
+    }
+
+    removeGroup(group: string): number {
+        let removed = 0;
+        for (const [label, entry] of this.entries) {
+            if (entry.group === group) {
+                this.entries.delete(label);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    search(query: ArrayLike<number>, k: number): VectorMatch[] {
+        const normalized = normalizeVector(query);
+        return Array.from(this.entries, ([label, entry]) => ({
+            label,
+            group: entry.group,
+            score: dotProduct(normalized, entry.vector),
+        }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, k);
+    }
+
+    serialize(): SerializedVectorIndex {
+        const entries = Array.from(this.entries);
+        const vectors = Buffer.alloc(entries.length * this.dimensions * 4);
+        entries.forEach(([, entry], i) => {
+            Buffer.from(entry.vector.buffer, entry.vector.byteOffset, entry.vector.byteLength)
+                .copy(vectors, i * this.dimensions * 4);
+        });
+
+        return {
+            header: {
+                kind: this.kind,
+                dimensions: this.dimensions,
+                entries: entries.map(([label, entry]) => ({ label, group: entry.group })),
+            },
+            vectors,
+        };
+    }
+
+    static deserialize(data: SerializedVectorIndex): FlatIndex {
+        const { header, vectors } = data;
+        const index = new FlatIndex(header.dimensions);
+        const stride = header.dimensions * 4;
+
+        (header.entries as Array<{ label: string; group: string }>).forEach((entry, i) => {
+            index.entries.set(entry.label, {
+                group: entry.group,
+                vector: new Float32Array(vectors.buffer.slice(vectors.byteOffset + i * stride, vectors.byteOffset + (i + 1) * stride)),
+            });
+        });
+
+        return index;
+    }
+}